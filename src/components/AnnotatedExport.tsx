@@ -0,0 +1,75 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Film, X } from 'lucide-react';
+import type { ExportMethod } from '@/lib/video/annotatedExport';
+import type { RecordingFormat } from '@/lib/video/recorder';
+
+interface AnnotatedExportProps {
+  format: RecordingFormat;
+  progress: { fraction: number; method: ExportMethod } | null;
+  disabled?: boolean;
+  onFormatChange: (format: RecordingFormat) => void;
+  onStart: () => void;
+  onCancel: () => void;
+}
+
+export function AnnotatedExport({ format, progress, disabled, onFormatChange, onStart, onCancel }: AnnotatedExportProps) {
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-sm">
+          <Film className="h-4 w-4 text-primary" />
+          Annotated Video Export
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Renders the whole video with detection boxes, danger badges and a timestamp on every frame.
+        </p>
+
+        {progress ? (
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs">
+              <span className="text-muted-foreground">
+                {progress.method === 'webcodecs' ? 'Encoding with WebCodecs' : 'Recording playback (real time)'}
+              </span>
+              <span className="font-medium text-foreground">{Math.round(progress.fraction * 100)}%</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Progress value={progress.fraction * 100} className="flex-1" />
+              <Button size="sm" variant="outline" onClick={onCancel}>
+                <X className="h-4 w-4 mr-1" />
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2">
+            <Select value={format} onValueChange={(value) => onFormatChange(value as RecordingFormat)}>
+              <SelectTrigger className="w-24 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="webm">WebM</SelectItem>
+                <SelectItem value="mp4">MP4</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="flex-1" />
+            <Button size="sm" onClick={onStart} disabled={disabled}>
+              <Film className="h-4 w-4 mr-2" />
+              Export Annotated Video
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,134 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { RotateCcw, Shapes } from 'lucide-react';
+import type { AnomalySettings } from '@/lib/detection/anomaly';
+
+interface AnomalyControlsProps {
+  cameraName: string;
+  settings: AnomalySettings;
+  learnedFrames: number;
+  disabled?: boolean;
+  onChange: (settings: AnomalySettings) => void;
+  onReset: () => void;
+}
+
+const parseCount = (value: string, fallback: number): number => {
+  const parsed = Math.round(Number(value));
+  return Number.isFinite(parsed) && parsed >= 1 ? parsed : fallback;
+};
+
+export function AnomalyControls({
+  cameraName,
+  settings,
+  learnedFrames,
+  disabled,
+  onChange,
+  onReset,
+}: AnomalyControlsProps) {
+  const learning = learnedFrames < settings.learningFrames;
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-sm">
+          <div className="flex items-center gap-2">
+            <Shapes className="h-4 w-4 text-primary" />
+            Unknown Objects
+          </div>
+          <Switch
+            checked={settings.enabled}
+            onCheckedChange={(enabled) => onChange({ ...settings, enabled })}
+            disabled={disabled}
+          />
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Learns the empty scene for {cameraName} and reports lasting changes YOLO can't name as obstacles or
+          debris. Needs a fixed camera.
+        </p>
+
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-muted-foreground">
+            {learnedFrames === 0
+              ? 'No background learned yet'
+              : `Background learned from ${learnedFrames} frame${learnedFrames === 1 ? '' : 's'}`}
+            {learning && learnedFrames > 0 && ' (still learning)'}
+          </span>
+          <Button size="sm" variant="outline" onClick={onReset} disabled={disabled || learnedFrames === 0}>
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Relearn
+          </Button>
+        </div>
+
+        {settings.enabled && (
+          <>
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs">
+                <span className="text-muted-foreground">Change needed</span>
+                <span className="font-medium text-foreground">{Math.round(settings.sensitivity * 100)}%</span>
+              </div>
+              <Slider
+                min={0.03}
+                max={0.4}
+                step={0.01}
+                value={[settings.sensitivity]}
+                onValueChange={([sensitivity]) => onChange({ ...settings, sensitivity })}
+                disabled={disabled}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs">
+                <span className="text-muted-foreground">Smallest object</span>
+                <span className="font-medium text-foreground">{(settings.minArea * 100).toFixed(1)}% of frame</span>
+              </div>
+              <Slider
+                min={0.0005}
+                max={0.05}
+                step={0.0005}
+                value={[settings.minArea]}
+                onValueChange={([minArea]) => onChange({ ...settings, minArea })}
+                disabled={disabled}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Samples it must stay</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={settings.persistence}
+                  onChange={(e) => onChange({ ...settings, persistence: parseCount(e.target.value, settings.persistence) })}
+                  disabled={disabled}
+                  className="h-8"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Learning samples</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={settings.learningFrames}
+                  onChange={(e) => onChange({
+                    ...settings,
+                    learningFrames: parseCount(e.target.value, settings.learningFrames),
+                  })}
+                  disabled={disabled}
+                  className="h-8"
+                />
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
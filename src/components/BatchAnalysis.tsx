@@ -0,0 +1,187 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Download, Layers, Play, Square, X } from 'lucide-react';
+import { BATCH_CONCURRENCY_OPTIONS, type BatchSummary } from '@/lib/analysis/queue';
+
+interface BatchAnalysisProps {
+  videoCount: number;
+  isRunning: boolean;
+  modelReady: boolean;
+  concurrency: number;
+  summary: BatchSummary | null;
+  onConcurrencyChange: (concurrency: number) => void;
+  onStart: () => void;
+  onStop: () => void;
+  onClearSummary: () => void;
+}
+
+const formatDuration = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+export function BatchAnalysis({
+  videoCount,
+  isRunning,
+  modelReady,
+  concurrency,
+  summary,
+  onConcurrencyChange,
+  onStart,
+  onStop,
+  onClearSummary,
+}: BatchAnalysisProps) {
+  const exportSummary = () => {
+    if (!summary) return;
+
+    const blob = new Blob([JSON.stringify(summary, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `batch_summary_${Date.now()}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-sm">
+          <div className="flex items-center gap-2">
+            <Layers className="h-4 w-4 text-primary" />
+            Batch Analysis
+          </div>
+          {isRunning && (
+            <Badge variant="default" className="bg-warning">
+              RUNNING
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Analyses every uploaded video that hasn't been analysed yet, in queue order. Higher priority videos run first.
+        </p>
+
+        <div className="flex items-center gap-2">
+          <Label className="text-xs text-muted-foreground">Videos at once</Label>
+          <Select
+            value={String(concurrency)}
+            onValueChange={(value) => onConcurrencyChange(Number(value))}
+          >
+            <SelectTrigger className="w-20 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BATCH_CONCURRENCY_OPTIONS.map(option => (
+                <SelectItem key={option} value={String(option)}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="flex-1" />
+
+          {isRunning ? (
+            <Button size="sm" variant="destructive" onClick={onStop}>
+              <Square className="h-4 w-4 mr-2" />
+              Stop Batch
+            </Button>
+          ) : (
+            <Button size="sm" onClick={onStart} disabled={videoCount === 0 || !modelReady}>
+              <Play className="h-4 w-4 mr-2" />
+              Analyze All
+            </Button>
+          )}
+        </div>
+
+        {summary && (
+          <div className="space-y-3 border-t border-border pt-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium text-foreground">Batch Summary</h4>
+              <div className="flex items-center gap-1">
+                <Button size="sm" variant="outline" onClick={exportSummary}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export
+                </Button>
+                <Button size="sm" variant="ghost" onClick={onClearSummary}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Videos:</span>
+                <span className="font-medium text-foreground">
+                  {summary.states.completed}/{summary.videos} completed
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Run Time:</span>
+                <span className="font-medium text-foreground">
+                  {formatDuration((summary.endedAt.getTime() - summary.startedAt.getTime()) / 1000)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Detections:</span>
+                <span className="font-medium text-foreground">{summary.totalDetections}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Frames Analysed:</span>
+                <span className="font-medium text-foreground">{summary.framesProcessed}</span>
+              </div>
+              {summary.framesSkipped > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Skipped (static):</span>
+                  <span className="font-medium text-foreground">
+                    {Math.round((summary.framesSkipped / (summary.framesSkipped + summary.framesProcessed)) * 100)}%
+                  </span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Critical:</span>
+                <span className="font-medium text-destructive">{summary.byDangerLevel.critical}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">High Risk:</span>
+                <span className="font-medium text-warning">{summary.byDangerLevel.high}</span>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              {summary.perVideo.map(video => (
+                <div key={video.videoId} className="flex items-center gap-2 text-xs">
+                  <span className="flex-1 truncate text-foreground" title={video.error ?? undefined}>
+                    {video.name}
+                  </span>
+                  <span className="text-muted-foreground">{video.detections} detections</span>
+                  {video.critical > 0 && (
+                    <span className="text-destructive">{video.critical} critical</span>
+                  )}
+                  <Badge
+                    variant="outline"
+                    className={video.state === 'completed' ? 'border-success text-success' : 'border-destructive text-destructive'}
+                  >
+                    {video.state.toUpperCase()}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
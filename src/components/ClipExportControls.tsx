@@ -0,0 +1,91 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Scissors } from 'lucide-react';
+import type { ClipSettings } from '@/lib/video/clip';
+import type { RecordingFormat } from '@/lib/video/recorder';
+
+interface ClipExportControlsProps {
+  settings: ClipSettings;
+  onChange: (settings: ClipSettings) => void;
+}
+
+const parseSeconds = (value: string, fallback: number): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+export function ClipExportControls({ settings, onChange }: ClipExportControlsProps) {
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-sm">
+          <Scissors className="h-4 w-4 text-primary" />
+          Clip Export
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Used by "Export clip" on each detection. Clips are recorded in real time.
+        </p>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Seconds before</Label>
+            <Input
+              type="number"
+              min={0}
+              step={1}
+              value={settings.before}
+              onChange={(e) => onChange({ ...settings, before: parseSeconds(e.target.value, settings.before) })}
+              className="h-8"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Seconds after</Label>
+            <Input
+              type="number"
+              min={0}
+              step={1}
+              value={settings.after}
+              onChange={(e) => onChange({ ...settings, after: parseSeconds(e.target.value, settings.after) })}
+              className="h-8"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <Label className="text-xs text-muted-foreground">Format</Label>
+          <Select
+            value={settings.format}
+            onValueChange={(format) => onChange({ ...settings, format: format as RecordingFormat })}
+          >
+            <SelectTrigger className="w-24 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="webm">WebM</SelectItem>
+              <SelectItem value="mp4">MP4</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <Label className="text-xs text-muted-foreground">Burn in detection boxes</Label>
+          <Switch
+            checked={settings.burnOverlay}
+            onCheckedChange={(burnOverlay) => onChange({ ...settings, burnOverlay })}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
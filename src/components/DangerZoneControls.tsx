@@ -0,0 +1,121 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Check, PenLine, RotateCcw, TriangleAlert, X } from 'lucide-react';
+import {
+  ZONE_SOURCE_LABELS,
+  type DangerZone,
+  type ZonePoint,
+  type ZoneSource,
+} from '@/lib/detection/dangerZone';
+
+interface DangerZoneControlsProps {
+  cameraName: string;
+  zone: DangerZone;
+  draft: ZonePoint[] | null;
+  disabled?: boolean;
+  onChange: (zone: DangerZone) => void;
+  onStartEditing: () => void;
+  onSave: () => void;
+  onCancel: () => void;
+  onReset: () => void;
+}
+
+export function DangerZoneControls({
+  cameraName,
+  zone,
+  draft,
+  disabled,
+  onChange,
+  onStartEditing,
+  onSave,
+  onCancel,
+  onReset,
+}: DangerZoneControlsProps) {
+  const source = zone.source ?? 'drawn';
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-sm">
+          <div className="flex items-center gap-2">
+            <TriangleAlert className="h-4 w-4 text-primary" />
+            Danger Zone
+          </div>
+          <Switch
+            checked={zone.enabled}
+            onCheckedChange={(enabled) => onChange({ ...zone, enabled })}
+            disabled={disabled || draft !== null}
+          />
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Outline the track for {cameraName}. Objects mostly outside it are scored lower, measured on their mask when
+          the model segments.
+        </p>
+
+        <Select
+          value={source}
+          onValueChange={(value) => onChange({ ...zone, source: value as ZoneSource })}
+          disabled={disabled || draft !== null}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(ZONE_SOURCE_LABELS) as ZoneSource[]).map(option => (
+              <SelectItem key={option} value={option}>
+                {ZONE_SOURCE_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {source === 'rails' && (
+          <p className="text-xs text-muted-foreground">
+            The corridor is found in every analysed frame. The drawn zone stands in while the rails can't be seen.
+          </p>
+        )}
+
+        {draft !== null ? (
+          <div className="space-y-2">
+            <p className="text-xs text-foreground">
+              Click the video to place corners ({draft.length} so far, at least 3)
+            </p>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={onSave} disabled={draft.length < 3}>
+                <Check className="h-3 w-3 mr-1" />
+                Save Zone
+              </Button>
+              <Button size="sm" variant="outline" onClick={onCancel}>
+                <X className="h-3 w-3 mr-1" />
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-muted-foreground">{zone.points.length} corners</span>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={onStartEditing} disabled={disabled}>
+                <PenLine className="h-3 w-3 mr-1" />
+                Redraw
+              </Button>
+              <Button size="sm" variant="outline" onClick={onReset} disabled={disabled}>
+                <RotateCcw className="h-3 w-3 mr-1" />
+                Default
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -13,27 +13,34 @@ import {
   Upload,
   Eye,
   FileVideo,
-  Zap
+  Zap,
+  RefreshCw
 } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
 import { ObstacleDetection } from './ObstacleDetection';
 import { VideoUpload } from './VideoUpload';
 import { VideoAnalysis } from './VideoAnalysis';
+import { TaxonomySettings } from './TaxonomySettings';
+import { ZeroShotPrompts } from './ZeroShotPrompts';
+import { ModelRegistry } from './ModelRegistry';
+import { BatchAnalysis } from './BatchAnalysis';
+import { ClipExportControls } from './ClipExportControls';
 import { useToast } from '@/hooks/use-toast';
+import { useYOLOv8Detection } from '@/hooks/useYOLOv8Detection';
+import { useModelRegistry } from '@/hooks/useModelRegistry';
+import { useZeroShotSettings } from '@/hooks/useZeroShotSettings';
+import { useBatchAnalysis } from '@/hooks/useBatchAnalysis';
+import { useClipExport } from '@/hooks/useClipExport';
+import type { ModelStatus } from '@/lib/detection/protocol';
+import { videoStatusForJob, type AnalysisJob } from '@/lib/analysis/job';
+import type { BatchSummary } from '@/lib/analysis/queue';
+import type { Detection } from '@/lib/detection/types';
+import { evidenceUrls, releaseEvidenceUrls } from '@/lib/evidence/capture';
 
 interface DashboardProps {
   onLogout: () => void;
 }
 
-interface Detection {
-  id: string;
-  type: 'obstacle' | 'person' | 'animal' | 'debris' | 'vehicle';
-  confidence: number;
-  location: string;
-  dangerLevel: 'low' | 'medium' | 'high' | 'critical';
-  timestamp: Date;
-  description: string;
-}
-
 interface UploadedVideo {
   id: string;
   file: File;
@@ -42,6 +49,8 @@ interface UploadedVideo {
   size: string;
   duration?: number;
   status: 'ready' | 'analyzing' | 'completed' | 'error';
+  job?: AnalysisJob;
+  detections?: Detection[];
 }
 
 interface TrackData {
@@ -61,6 +70,13 @@ export function Dashboard({ onLogout }: DashboardProps) {
   const [uploadedVideos, setUploadedVideos] = useState<UploadedVideo[]>([]);
   const [currentVideo, setCurrentVideo] = useState<UploadedVideo | null>(null);
   const [allDetections, setAllDetections] = useState<Detection[]>([]);
+  const [seekRequest, setSeekRequest] = useState<{ time: number; requestId: number } | null>(null);
+  const { selectedModel } = useModelRegistry();
+  const { zeroShot } = useZeroShotSettings();
+  const { status: modelStatus, zeroShotStatus, retry: retryModel } = useYOLOv8Detection({
+    model: selectedModel,
+    zeroShot,
+  });
 
   // Sample detection types for random generation (keep for demo purposes)
   const detectionTypes = [
@@ -100,6 +116,7 @@ export function Dashboard({ onLogout }: DashboardProps) {
     });
     
     setCurrentVideo(video);
+    setSeekRequest(null);
   };
 
   // Remove uploaded video
@@ -110,15 +127,56 @@ export function Dashboard({ onLogout }: DashboardProps) {
     }
   };
 
-  // Handle video analysis status updates
-  const handleStatusUpdate = (videoId: string, status: UploadedVideo['status']) => {
+  // Open the detection's video at the moment it was seen
+  const handleSelectDetection = (detection: Detection) => {
+    const video = uploadedVideos.find(v => v.id === detection.videoId);
+    if (!video || detection.timeInVideo === undefined) return;
+
+    setCurrentVideo(prev => prev?.id === video.id ? prev : video);
+    setSeekRequest({ time: detection.timeInVideo, requestId: Date.now() });
+  };
+
+  const clipExport = useClipExport();
+
+  // Overlay for a clip uses every detection known for its video
+  const handleExportClip = (detection: Detection) => {
+    const video = uploadedVideos.find(v => v.id === detection.videoId);
+    if (!video) return;
+
+    const stored = video.detections ?? [];
+    const storedIds = new Set(stored.map(d => d.id));
+    const live = allDetections.filter(d => d.videoId === video.id && !storedIds.has(d.id));
+    clipExport.exportDetectionClip(video, detection, [...stored, ...live]);
+  };
+
+  // Handle analysis job updates; the video status follows the job state
+  const handleJobUpdate = (videoId: string, job: AnalysisJob) => {
+    const status = videoStatusForJob(job.state);
     setUploadedVideos(prev => 
-      prev.map(v => v.id === videoId ? { ...v, status } : v)
+      prev.map(v => v.id === videoId ? { ...v, status, job } : v)
+    );
+    setCurrentVideo(prev => prev?.id === videoId ? { ...prev, status, job } : prev);
+
+    if (job.state === 'failed') {
+      toast({
+        title: "Analysis Failed",
+        description: job.error ?? 'Unknown error',
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Keep a video's results with it so they can be reviewed later
+  const storeVideoDetections = (videoId: string, detections: Detection[]) => {
+    setUploadedVideos(prev =>
+      prev.map(v => v.id === videoId ? { ...v, detections } : v)
     );
+    setCurrentVideo(prev => prev?.id === videoId ? { ...prev, detections } : prev);
   };
 
   // Handle analysis completion
   const handleAnalysisComplete = (videoId: string, detections: Detection[]) => {
+    storeVideoDetections(videoId, detections);
     toast({
       title: "✅ Analysis Complete",
       description: `Found ${detections.length} detections in video`,
@@ -146,6 +204,33 @@ export function Dashboard({ onLogout }: DashboardProps) {
     setLastUpdate(new Date());
   };
 
+  // Handle the end of a batch run
+  const handleBatchComplete = (summary: BatchSummary) => {
+    toast({
+      title: "✅ Batch Analysis Complete",
+      description: `${summary.states.completed}/${summary.videos} videos analysed, ${summary.totalDetections} detections (${summary.byDangerLevel.critical} critical)`,
+    });
+    setLastUpdate(new Date());
+  };
+
+  // Evidence images are only shown in the recent list, so they are released as
+  // detections drop off it and when the dashboard goes away
+  const shownEvidenceRef = useRef(new Set<string>());
+  useEffect(() => {
+    const shown = evidenceUrls(allDetections);
+    releaseEvidenceUrls(shownEvidenceRef.current, shown);
+    shownEvidenceRef.current = shown;
+  }, [allDetections]);
+  useEffect(() => () => releaseEvidenceUrls(shownEvidenceRef.current, new Set()), []);
+
+  const batch = useBatchAnalysis({
+    videos: uploadedVideos,
+    onJobUpdate: handleJobUpdate,
+    onDetection: handleDetection,
+    onVideoComplete: storeVideoDetections,
+    onComplete: handleBatchComplete,
+  });
+
   // Simulate some background detections for demo (much reduced frequency)
   useEffect(() => {
     if (!isMonitoring) return;
@@ -198,7 +283,39 @@ export function Dashboard({ onLogout }: DashboardProps) {
     }
   };
 
+  const getModelStatusBadge = (status: ModelStatus) => {
+    switch (status.state) {
+      case 'downloading':
+        return { label: `Downloading ${status.progress}%`, className: 'bg-warning' };
+      case 'compiling':
+        return { label: 'Compiling', className: 'bg-warning' };
+      case 'ready':
+        return { label: 'Loaded', className: 'bg-success' };
+      case 'failed':
+        return { label: 'Failed', className: 'bg-destructive' };
+      default:
+        return { label: 'Idle', className: 'bg-muted' };
+    }
+  };
+
+  const getDetectionServiceBadge = (status: ModelStatus) => {
+    switch (status.state) {
+      case 'ready':
+        return { label: 'Online', className: 'bg-success' };
+      case 'failed':
+        return { label: 'Offline', className: 'bg-destructive' };
+      default:
+        return { label: 'Starting', className: 'bg-warning' };
+    }
+  };
+
   const currentThreatLevel = getCurrentThreatLevel();
+  const modelStatusBadge = getModelStatusBadge(modelStatus);
+  const zeroShotStatusBadge = zeroShotStatus && getModelStatusBadge(zeroShotStatus);
+  const modelError = modelStatus.state === 'failed'
+    ? modelStatus.error
+    : zeroShotStatus?.state === 'failed' ? zeroShotStatus.error : null;
+  const detectionServiceBadge = getDetectionServiceBadge(modelStatus);
 
   // Calculated values
   const completedAnalyses = uploadedVideos.filter(v => v.status === 'completed').length;
@@ -221,6 +338,9 @@ export function Dashboard({ onLogout }: DashboardProps) {
               <Activity className="h-3 w-3 mr-1" />
               {isMonitoring ? 'MONITORING' : 'PAUSED'}
             </Badge>
+            <ModelRegistry />
+            <TaxonomySettings />
+            <ZeroShotPrompts />
             <Button onClick={onLogout} variant="outline" size="sm">
               <LogOut className="h-4 w-4 mr-2" />
               Logout
@@ -302,25 +422,45 @@ export function Dashboard({ onLogout }: DashboardProps) {
           {/* Video Upload and Analysis */}
           <div className="lg:col-span-2 space-y-4">
             {!currentVideo ? (
-              <VideoUpload
-                onVideoSelect={handleVideoSelect}
-                uploadedVideos={uploadedVideos}
-                onRemoveVideo={handleRemoveVideo}
-                currentVideo={currentVideo}
-              />
+              <>
+                <VideoUpload
+                  onVideoSelect={handleVideoSelect}
+                  uploadedVideos={uploadedVideos}
+                  onRemoveVideo={handleRemoveVideo}
+                  currentVideo={currentVideo}
+                  queue={batch.queue}
+                  onMoveVideo={batch.move}
+                  onPriorityChange={batch.setPriority}
+                />
+                <BatchAnalysis
+                  videoCount={uploadedVideos.length}
+                  isRunning={batch.isRunning}
+                  modelReady={batch.modelReady}
+                  concurrency={batch.concurrency}
+                  summary={batch.summary}
+                  onConcurrencyChange={batch.setConcurrency}
+                  onStart={batch.start}
+                  onStop={batch.stop}
+                  onClearSummary={batch.clearSummary}
+                />
+              </>
             ) : (
               <VideoAnalysis
                 video={currentVideo}
                 onDetection={handleDetection}
                 onAnalysisComplete={handleAnalysisComplete}
-                onStatusUpdate={handleStatusUpdate}
+                onJobUpdate={handleJobUpdate}
+                seekRequest={seekRequest}
               />
             )}
             
             {currentVideo && (
               <Button
                 variant="outline"
-                onClick={() => setCurrentVideo(null)}
+                onClick={() => {
+                  setCurrentVideo(null);
+                  setSeekRequest(null);
+                }}
                 className="w-full"
               >
                 <Upload className="h-4 w-4 mr-2" />
@@ -331,7 +471,15 @@ export function Dashboard({ onLogout }: DashboardProps) {
 
           {/* Detection Results and System Status */}
           <div className="space-y-4">
-            <ObstacleDetection detections={allDetections} />
+            <ObstacleDetection
+              detections={allDetections}
+              onSelect={handleSelectDetection}
+              onExportClip={handleExportClip}
+              onCancelClip={clipExport.cancel}
+              exportingClip={clipExport.exporting}
+            />
+
+            <ClipExportControls settings={clipExport.settings} onChange={clipExport.setSettings} />
             
             <Card className="bg-card border-border">
               <CardHeader>
@@ -343,8 +491,35 @@ export function Dashboard({ onLogout }: DashboardProps) {
               <CardContent className="space-y-3">
                 <div className="flex justify-between items-center">
                   <span className="text-sm text-muted-foreground">Model Status</span>
-                  <Badge variant="default" className="bg-success">Loaded</Badge>
+                  <Badge variant="default" className={modelStatusBadge.className}>
+                    {modelStatusBadge.label}
+                  </Badge>
                 </div>
+                {modelStatus.state === 'downloading' && (
+                  <Progress value={modelStatus.progress} className="h-2" />
+                )}
+                {zeroShotStatus && zeroShotStatusBadge && (
+                  <>
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-muted-foreground">Text Prompt Model</span>
+                      <Badge variant="default" className={zeroShotStatusBadge.className}>
+                        {zeroShotStatusBadge.label}
+                      </Badge>
+                    </div>
+                    {zeroShotStatus.state === 'downloading' && (
+                      <Progress value={zeroShotStatus.progress} className="h-2" />
+                    )}
+                  </>
+                )}
+                {modelError && (
+                  <div className="bg-destructive/10 border border-destructive/20 rounded p-2 space-y-2">
+                    <p className="text-xs text-muted-foreground break-words">{modelError}</p>
+                    <Button size="sm" variant="outline" onClick={retryModel} className="w-full">
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                      Retry Loading
+                    </Button>
+                  </div>
+                )}
                 <div className="flex justify-between items-center">
                   <span className="text-sm text-muted-foreground">Processing</span>
                   <Badge variant="outline" className={activeCameras > 0 ? "bg-warning" : "bg-muted"}>
@@ -376,7 +551,9 @@ export function Dashboard({ onLogout }: DashboardProps) {
               <CardContent className="space-y-3">
                 <div className="flex justify-between items-center">
                   <span className="text-sm text-muted-foreground">YOLOv8 Detection</span>
-                  <Badge variant="default" className="bg-success">Online</Badge>
+                  <Badge variant="default" className={detectionServiceBadge.className}>
+                    {detectionServiceBadge.label}
+                  </Badge>
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-sm text-muted-foreground">Network Status</span>
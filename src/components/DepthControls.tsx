@@ -0,0 +1,120 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Ruler } from 'lucide-react';
+import { DEPTH_MODEL, type DepthCalibration, type DepthSettings } from '@/lib/detection/depth';
+import { formatModelSize } from '@/lib/detection/models';
+import type { ModelStatus } from '@/lib/detection/protocol';
+
+interface DepthControlsProps {
+  cameraName: string;
+  settings: DepthSettings;
+  calibration: DepthCalibration;
+  status: ModelStatus | null;
+  disabled?: boolean;
+  onChange: (settings: DepthSettings) => void;
+  onCalibrationChange: (calibration: DepthCalibration) => void;
+}
+
+const parseDistance = (value: string): number | null => {
+  const parsed = Number(value);
+  return value.trim() && Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+export function DepthControls({
+  cameraName,
+  settings,
+  calibration,
+  status,
+  disabled,
+  onChange,
+  onCalibrationChange,
+}: DepthControlsProps) {
+  const calibrated = calibration.referenceDistance !== null;
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-sm">
+          <div className="flex items-center gap-2">
+            <Ruler className="h-4 w-4 text-primary" />
+            Distance Estimation
+          </div>
+          <Switch
+            checked={settings.enabled}
+            onCheckedChange={(enabled) => onChange({ ...settings, enabled })}
+            disabled={disabled}
+          />
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Estimates how far each detection is with {DEPTH_MODEL.name} ({formatModelSize(DEPTH_MODEL.sizeBytes)}).
+          Distances are relative until the camera is calibrated.
+        </p>
+
+        {status && status.state !== 'ready' && (
+          <div className="space-y-1 text-xs text-muted-foreground">
+            <span>
+              {status.state === 'downloading'
+                ? `Downloading ${status.progress}%`
+                : status.state === 'failed' ? status.error : 'Loading model'}
+            </span>
+            {status.state === 'downloading' && <Progress value={status.progress} className="h-1" />}
+          </div>
+        )}
+
+        {settings.enabled && (
+          <>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">
+                Metres to the ground at the bottom centre of {cameraName}
+              </Label>
+              <Input
+                type="number"
+                min={0}
+                step={0.5}
+                placeholder="Not calibrated"
+                value={calibration.referenceDistance ?? ''}
+                onChange={(e) => onCalibrationChange({ referenceDistance: parseDistance(e.target.value) })}
+                disabled={disabled}
+                className="h-8"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs">
+                <span className="text-muted-foreground">Raise danger when nearer than</span>
+                <span className="font-medium text-foreground">
+                  {calibrated ? `${settings.nearDistance} m` : `depth ${settings.nearDepth.toFixed(2)}`}
+                </span>
+              </div>
+              {calibrated ? (
+                <Slider
+                  min={5}
+                  max={300}
+                  step={5}
+                  value={[settings.nearDistance]}
+                  onValueChange={([nearDistance]) => onChange({ ...settings, nearDistance })}
+                  disabled={disabled}
+                />
+              ) : (
+                <Slider
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={[settings.nearDepth]}
+                  onValueChange={([nearDepth]) => onChange({ ...settings, nearDepth })}
+                  disabled={disabled}
+                />
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState, type MouseEvent } from 'react';
+import { containTransform, drawDangerZone, drawDetections } from '@/lib/detection/overlay';
+import type { ZonePoint } from '@/lib/detection/dangerZone';
+import type { Detection } from '@/lib/detection/types';
+
+interface DetectionOverlayProps {
+  detections: Detection[];
+  // Intrinsic video size; boxes are in these pixels
+  frameWidth: number;
+  frameHeight: number;
+  zone?: ZonePoint[] | null;
+  // While set, clicks add points to the zone instead of reaching the video
+  onZonePoint?: (point: ZonePoint) => void;
+}
+
+// Sits over an object-contain <video> inside a relatively positioned box
+export function DetectionOverlay({ detections, frameWidth, frameHeight, zone, onZonePoint }: DetectionOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    // Render at device resolution so labels stay sharp
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(size.width * ratio);
+    canvas.height = Math.round(size.height * ratio);
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, size.width, size.height);
+
+    const transform = containTransform(frameWidth, frameHeight, size.width, size.height);
+    if (zone) drawDangerZone(ctx, zone, frameWidth, frameHeight, transform, !!onZonePoint);
+    drawDetections(ctx, detections, transform);
+  }, [detections, frameWidth, frameHeight, size, zone, onZonePoint]);
+
+  const handleClick = (event: MouseEvent<HTMLCanvasElement>) => {
+    if (!onZonePoint || !frameWidth || !frameHeight) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const { scale, offsetX, offsetY } = containTransform(frameWidth, frameHeight, rect.width, rect.height);
+    const x = (event.clientX - rect.left - offsetX) / scale / frameWidth;
+    const y = (event.clientY - rect.top - offsetY) / scale / frameHeight;
+    // Clicks on the letterbox snap to the frame edge
+    onZonePoint({ x: Math.min(1, Math.max(0, x)), y: Math.min(1, Math.max(0, y)) });
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onClick={handleClick}
+      className={`absolute inset-0 w-full h-full ${onZonePoint ? 'cursor-crosshair' : 'pointer-events-none'}`}
+    />
+  );
+}
@@ -0,0 +1,98 @@
+import { useMemo, type MouseEvent } from 'react';
+import { buildTimelineEvents, samplingCoverage, timelineDensity } from '@/lib/detection/timeline';
+import { DANGER_COLORS } from '@/lib/detection/overlay';
+import type { Detection } from '@/lib/detection/types';
+
+interface DetectionTimelineProps {
+  detections: Detection[];
+  duration: number;
+  currentTime: number;
+  // Timestamps that went through the detector, shown as a strip along the bottom
+  sampledTimes?: number[];
+  disabled?: boolean;
+  onSeek: (time: number) => void;
+}
+
+const DENSITY_BINS = 60;
+const COVERAGE_BINS = 200;
+
+export function DetectionTimeline({
+  detections,
+  duration,
+  currentTime,
+  sampledTimes = [],
+  disabled,
+  onSeek,
+}: DetectionTimelineProps) {
+  const events = useMemo(() => buildTimelineEvents(detections), [detections]);
+  const density = useMemo(() => timelineDensity(events, duration, DENSITY_BINS), [events, duration]);
+  const coverage = useMemo(
+    () => samplingCoverage(sampledTimes, duration, COVERAGE_BINS),
+    [sampledTimes, duration]
+  );
+  const percent = (time: number) => (duration > 0 ? Math.min(100, (time / duration) * 100) : 0);
+
+  const handleScrub = (e: MouseEvent<HTMLDivElement>) => {
+    if (disabled || duration <= 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(((e.clientX - rect.left) / rect.width) * duration);
+  };
+
+  return (
+    <div
+      className={`relative h-8 rounded bg-secondary overflow-hidden ${disabled ? 'opacity-60' : 'cursor-pointer'}`}
+      onClick={handleScrub}
+    >
+      {/* Busy stretches of the video */}
+      <div className="absolute inset-0 flex items-end">
+        {density.map((value, index) => (
+          <div
+            key={index}
+            className="flex-1 bg-primary/25"
+            style={{ height: `${value * 100}%` }}
+          />
+        ))}
+      </div>
+
+      {/* Analysed frames; brighter where adaptive sampling went dense */}
+      {sampledTimes.length > 0 && (
+        <div className="absolute inset-x-0 bottom-0 h-1 flex">
+          {coverage.map((value, index) => (
+            <div
+              key={index}
+              className="flex-1 bg-success"
+              style={{ opacity: value > 0 ? 0.3 + value * 0.7 : 0 }}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Played portion */}
+      <div
+        className="absolute inset-y-0 left-0 bg-primary/20"
+        style={{ width: `${percent(currentTime)}%` }}
+      />
+
+      {events.map(event => (
+        <button
+          key={event.time}
+          type="button"
+          title={`${event.count} detection${event.count === 1 ? '' : 's'} at ${event.time.toFixed(1)}s (${event.dangerLevel})`}
+          disabled={disabled}
+          onClick={(e) => {
+            e.stopPropagation();
+            onSeek(event.time);
+          }}
+          className="absolute top-1 bottom-1 w-1.5 -ml-[3px] rounded-sm hover:scale-x-150 transition-transform"
+          style={{ left: `${percent(event.time)}%`, backgroundColor: DANGER_COLORS[event.dangerLevel] }}
+        />
+      ))}
+
+      {/* Playhead */}
+      <div
+        className="absolute inset-y-0 w-0.5 bg-foreground pointer-events-none"
+        style={{ left: `${percent(currentTime)}%` }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useEffect, useRef, type RefObject } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { SunMoon } from 'lucide-react';
+import { enhanceCanvas, type EnhanceSettings } from '@/lib/video/enhance';
+
+interface EnhanceControlsProps {
+  cameraName: string;
+  settings: EnhanceSettings;
+  videoRef: RefObject<HTMLVideoElement>;
+  // Redraws the preview when the player moves
+  currentTime: number;
+  disabled?: boolean;
+  onChange: (settings: EnhanceSettings) => void;
+}
+
+const PREVIEW_WIDTH = 320;
+
+export function EnhanceControls({
+  cameraName,
+  settings,
+  videoRef,
+  currentTime,
+  disabled,
+  onChange,
+}: EnhanceControlsProps) {
+  const rawRef = useRef<HTMLCanvasElement>(null);
+  const enhancedRef = useRef<HTMLCanvasElement>(null);
+
+  // Raw and enhanced copies of the current frame, so settings can be tuned
+  // before they are switched on. The preview is downscaled, so denoising looks
+  // a little stronger here than on the full frame
+  useEffect(() => {
+    const video = videoRef.current;
+    const raw = rawRef.current;
+    const enhanced = enhancedRef.current;
+    if (!video || !raw || !enhanced) return;
+
+    const draw = () => {
+      if (!video.videoWidth) return;
+      const width = PREVIEW_WIDTH;
+      const height = Math.round((PREVIEW_WIDTH * video.videoHeight) / video.videoWidth);
+      for (const canvas of [raw, enhanced]) {
+        canvas.width = width;
+        canvas.height = height;
+        canvas.getContext('2d', { willReadFrequently: true })?.drawImage(video, 0, 0, width, height);
+      }
+      enhanceCanvas(enhanced, { ...settings, enabled: true });
+    };
+
+    // No frame to show until the first one has loaded
+    if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+      draw();
+      return;
+    }
+    video.addEventListener('loadeddata', draw, { once: true });
+    return () => video.removeEventListener('loadeddata', draw);
+  }, [videoRef, settings, currentTime]);
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-sm">
+          <div className="flex items-center gap-2">
+            <SunMoon className="h-4 w-4 text-primary" />
+            Low Light &amp; Weather
+          </div>
+          <Switch
+            checked={settings.enabled}
+            onCheckedChange={(enabled) => onChange({ ...settings, enabled })}
+            disabled={disabled}
+          />
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Cleans up dark, hazy or noisy frames before detection. Saved for {cameraName}.
+        </p>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <span className="text-xs text-muted-foreground">Raw</span>
+            <canvas ref={rawRef} className="w-full rounded border border-border bg-muted" />
+          </div>
+          <div className="space-y-1">
+            <span className="text-xs text-muted-foreground">Enhanced</span>
+            <canvas ref={enhancedRef} className="w-full rounded border border-border bg-muted" />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <Label className="text-xs text-muted-foreground">Reduce noise</Label>
+          <Switch
+            checked={settings.denoise}
+            onCheckedChange={(denoise) => onChange({ ...settings, denoise })}
+            disabled={disabled}
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <Label className="text-xs text-muted-foreground">Remove haze, fog and spray</Label>
+          <Switch
+            checked={settings.dehaze}
+            onCheckedChange={(dehaze) => onChange({ ...settings, dehaze })}
+            disabled={disabled}
+          />
+        </div>
+        {settings.dehaze && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs">
+              <span className="text-muted-foreground">Haze removed</span>
+              <span className="font-medium text-foreground">{Math.round(settings.dehazeStrength * 100)}%</span>
+            </div>
+            <Slider
+              min={0.1}
+              max={1}
+              step={0.05}
+              value={[settings.dehazeStrength]}
+              onValueChange={([dehazeStrength]) => onChange({ ...settings, dehazeStrength })}
+              disabled={disabled}
+            />
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-4">
+          <Label className="text-xs text-muted-foreground">Automatic exposure</Label>
+          <Switch
+            checked={settings.autoExposure}
+            onCheckedChange={(autoExposure) => onChange({ ...settings, autoExposure })}
+            disabled={disabled}
+          />
+        </div>
+        {!settings.autoExposure && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs">
+              <span className="text-muted-foreground">Gamma (below 1 brightens)</span>
+              <span className="font-medium text-foreground">{settings.gamma.toFixed(2)}</span>
+            </div>
+            <Slider
+              min={0.3}
+              max={2.5}
+              step={0.05}
+              value={[settings.gamma]}
+              onValueChange={([gamma]) => onChange({ ...settings, gamma })}
+              disabled={disabled}
+            />
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-4">
+          <Label className="text-xs text-muted-foreground">Equalise local contrast</Label>
+          <Switch
+            checked={settings.equalize}
+            onCheckedChange={(equalize) => onChange({ ...settings, equalize })}
+            disabled={disabled}
+          />
+        </div>
+        {settings.equalize && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs">
+              <span className="text-muted-foreground">Contrast limit</span>
+              <span className="font-medium text-foreground">{settings.clipLimit.toFixed(1)}</span>
+            </div>
+            <Slider
+              min={1}
+              max={5}
+              step={0.5}
+              value={[settings.clipLimit]}
+              onValueChange={([clipLimit]) => onChange({ ...settings, clipLimit })}
+              disabled={disabled}
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,76 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Camera, Trash2 } from 'lucide-react';
+import type { EvidenceSettings } from '@/lib/evidence/capture';
+
+interface EvidenceControlsProps {
+  evidence: EvidenceSettings;
+  // Frames kept in this browser; null until counted
+  storedFrames: number | null;
+  disabled?: boolean;
+  onChange: (evidence: EvidenceSettings) => void;
+  onClear: () => void;
+}
+
+export function EvidenceControls({ evidence, storedFrames, disabled, onChange, onClear }: EvidenceControlsProps) {
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-sm">
+          <div className="flex items-center gap-2">
+            <Camera className="h-4 w-4 text-primary" />
+            Evidence Snapshots
+          </div>
+          <Switch
+            checked={evidence.enabled}
+            onCheckedChange={(enabled) => onChange({ ...evidence, enabled })}
+          />
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Keeps the full frame and a crop of every detection in this browser for incident reports, until cleared.
+        </p>
+
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-muted-foreground">
+            {storedFrames === null
+              ? 'Counting stored frames'
+              : `${storedFrames} frame${storedFrames === 1 ? '' : 's'} stored`}
+          </span>
+          <Button size="sm" variant="outline" onClick={onClear} disabled={disabled || !storedFrames}>
+            <Trash2 className="h-3 w-3 mr-1" />
+            Clear
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between text-xs">
+            <span className="text-muted-foreground">Crop padding</span>
+            <span className="font-medium text-foreground">{Math.round(evidence.padding * 100)}%</span>
+          </div>
+          <Slider
+            min={0}
+            max={1}
+            step={0.05}
+            value={[evidence.padding]}
+            onValueChange={([padding]) => onChange({ ...evidence, padding })}
+            disabled={!evidence.enabled}
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <Label className="text-xs text-muted-foreground">Also upload to cloud storage</Label>
+          <Switch
+            checked={evidence.upload}
+            onCheckedChange={(upload) => onChange({ ...evidence, upload })}
+            disabled={!evidence.enabled}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,243 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Boxes, CheckCircle, HardDrive, Trash2, Upload } from 'lucide-react';
+import { useModelRegistry } from '@/hooks/useModelRegistry';
+import { useToast } from '@/hooks/use-toast';
+import { formatModelSize, type ModelInfo } from '@/lib/detection/models';
+
+export function ModelRegistry() {
+  const { models, selectedModel, selectModel, cachedSizes, importModel, removeModel, refresh } = useModelRegistry();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [inputResolution, setInputResolution] = useState(640);
+  const [segmentation, setSegmentation] = useState(false);
+  const [modelFile, setModelFile] = useState<File | null>(null);
+  const [labelFile, setLabelFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const modelInputRef = useRef<HTMLInputElement>(null);
+  const labelInputRef = useRef<HTMLInputElement>(null);
+
+  // Cached sizes change as the worker downloads models, so re-read on open
+  useEffect(() => {
+    if (open) refresh();
+  }, [open, refresh]);
+
+  const resetImportForm = () => {
+    setName('');
+    setInputResolution(640);
+    setSegmentation(false);
+    setModelFile(null);
+    setLabelFile(null);
+    if (modelInputRef.current) modelInputRef.current.value = '';
+    if (labelInputRef.current) labelInputRef.current.value = '';
+  };
+
+  const handleImport = async () => {
+    if (!modelFile || !labelFile) return;
+
+    setImporting(true);
+    try {
+      const info = await importModel({
+        name,
+        modelFile,
+        labelFile,
+        inputResolution,
+        task: segmentation ? 'instance-segmentation' : 'object-detection',
+      });
+      toast({
+        title: "Model Imported",
+        description: `${info.name} (${info.classes.length} classes) is available offline`,
+      });
+      resetImportForm();
+    } catch (err) {
+      toast({
+        title: "Import Failed",
+        description: err instanceof Error ? err.message : 'Unknown error',
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleRemove = async (model: ModelInfo) => {
+    try {
+      await removeModel(model);
+      toast({
+        title: model.source === 'custom' ? "Model Deleted" : "Cache Cleared",
+        description: model.name,
+      });
+    } catch (err) {
+      toast({
+        title: "Removal Failed",
+        description: err instanceof Error ? err.message : 'Unknown error',
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Boxes className="h-4 w-4 mr-2" />
+          Models
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Detection Models</DialogTitle>
+          <DialogDescription>
+            Pick the model used for analysis. Downloaded and imported models are kept in browser storage for offline use.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-72 pr-3">
+          <div className="space-y-2">
+            {models.map(model => {
+              const isSelected = selectedModel?.id === model.id;
+              const cached = cachedSizes[model.id] ?? 0;
+
+              return (
+                <div
+                  key={model.id}
+                  className={`flex items-center justify-between p-3 rounded-lg border ${
+                    isSelected ? 'border-primary bg-primary/5' : 'border-border'
+                  }`}
+                >
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium text-foreground truncate">{model.name}</p>
+                      <Badge variant="outline" className="text-xs">
+                        {model.source === 'custom' ? 'CUSTOM' : model.repo}
+                      </Badge>
+                    </div>
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <span>{formatModelSize(model.sizeBytes)}</span>
+                      <span>•</span>
+                      <span>{model.classes.length} classes</span>
+                      <span>•</span>
+                      <span>{model.inputResolution}×{model.inputResolution}</span>
+                      {model.task === 'instance-segmentation' && (
+                        <>
+                          <span>•</span>
+                          <span>Masks</span>
+                        </>
+                      )}
+                      {cached > 0 && (
+                        <>
+                          <span>•</span>
+                          <span className="flex items-center gap-1 text-success">
+                            <HardDrive className="h-3 w-3" />
+                            {formatModelSize(cached)} cached
+                          </span>
+                        </>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    {isSelected ? (
+                      <Badge variant="default" className="bg-success">
+                        <CheckCircle className="h-3 w-3 mr-1" />
+                        ACTIVE
+                      </Badge>
+                    ) : (
+                      <Button size="sm" variant="outline" onClick={() => selectModel(model.id)}>
+                        Use
+                      </Button>
+                    )}
+                    {(model.source === 'custom' || cached > 0) && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleRemove(model)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+
+        <div className="space-y-3 border-t border-border pt-4">
+          <h4 className="text-sm font-medium text-foreground">Import Custom ONNX Model</h4>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="model-name" className="text-xs">Name</Label>
+              <Input
+                id="model-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Railway fine-tune"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="model-resolution" className="text-xs">Input resolution</Label>
+              <Input
+                id="model-resolution"
+                type="number"
+                min={32}
+                step={32}
+                value={inputResolution}
+                onChange={(e) => setInputResolution(Number(e.target.value) || 640)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="model-file" className="text-xs">ONNX weights</Label>
+              <Input
+                id="model-file"
+                ref={modelInputRef}
+                type="file"
+                accept=".onnx"
+                onChange={(e) => setModelFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="label-file" className="text-xs">Labels (.txt or .json)</Label>
+              <Input
+                id="label-file"
+                ref={labelInputRef}
+                type="file"
+                accept=".txt,.json"
+                onChange={(e) => setLabelFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="model-segmentation" className="text-xs">
+              Instance segmentation (YOLOv8-seg export with mask outputs)
+            </Label>
+            <Switch id="model-segmentation" checked={segmentation} onCheckedChange={setSegmentation} />
+          </div>
+          <Button
+            onClick={handleImport}
+            disabled={!modelFile || !labelFile || importing}
+            className="w-full"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {importing ? 'Importing...' : 'Import Model'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
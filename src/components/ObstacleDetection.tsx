@@ -1,6 +1,9 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { AlertTriangle, Zap, Clock, MapPin, User, Dog, Car, Wrench } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { AlertTriangle, Zap, Clock, MapPin, User, Dog, Car, Wrench, Scissors, X } from 'lucide-react';
+import { formatDistance } from '@/lib/detection/depth';
 
 interface Detection {
   id: string;
@@ -10,13 +13,30 @@ interface Detection {
   dangerLevel: 'low' | 'medium' | 'high' | 'critical';
   timestamp: Date;
   description: string;
+  timeInVideo?: number;
+  videoId?: string;
+  zoneOverlap?: number;
+  distance?: { value: number; calibrated: boolean };
+  evidence?: { cropUrl: string; frameUrl: string };
 }
 
 interface ObstacleDetectionProps {
   detections: Detection[];
+  // Called for detections that came from a video, to jump to that moment
+  onSelect?: (detection: Detection) => void;
+  onExportClip?: (detection: Detection) => void;
+  onCancelClip?: () => void;
+  // The clip being exported, if any; one at a time
+  exportingClip?: { detectionId: string; progress: number } | null;
 }
 
-export function ObstacleDetection({ detections }: ObstacleDetectionProps) {
+export function ObstacleDetection({
+  detections,
+  onSelect,
+  onExportClip,
+  onCancelClip,
+  exportingClip,
+}: ObstacleDetectionProps) {
   const getDetectionIcon = (type: Detection['type']) => {
     switch (type) {
       case 'person':
@@ -94,11 +114,36 @@ export function ObstacleDetection({ detections }: ObstacleDetectionProps) {
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        {sortedDetections.map((detection) => (
-          <div key={detection.id} className="border border-border rounded-lg p-3 space-y-2">
+        {sortedDetections.map((detection) => {
+          const canSelect = !!onSelect && !!detection.videoId && detection.timeInVideo !== undefined;
+
+          return (
+          <div
+            key={detection.id}
+            className={`border border-border rounded-lg p-3 space-y-2 ${
+              canSelect ? 'cursor-pointer hover:border-primary/50 transition-colors' : ''
+            }`}
+            onClick={canSelect ? () => onSelect(detection) : undefined}
+          >
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
-                {getDetectionIcon(detection.type)}
+                {detection.evidence ? (
+                  <a
+                    href={detection.evidence.frameUrl}
+                    target="_blank"
+                    rel="noreferrer"
+                    onClick={(e) => e.stopPropagation()}
+                    title="Open full frame"
+                  >
+                    <img
+                      src={detection.evidence.cropUrl}
+                      alt={detection.description}
+                      className="h-10 w-10 rounded object-cover border border-border"
+                    />
+                  </a>
+                ) : (
+                  getDetectionIcon(detection.type)
+                )}
                 <span className="font-medium text-foreground">{detection.description}</span>
               </div>
               <Badge variant={getDangerBadge(detection.dangerLevel)}>
@@ -109,19 +154,55 @@ export function ObstacleDetection({ detections }: ObstacleDetectionProps) {
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
               <MapPin className="h-3 w-3" />
               {detection.location}
+              {detection.distance && <span>• {formatDistance(detection.distance)}</span>}
+              {detection.zoneOverlap !== undefined && (
+                <span>• {Math.round(detection.zoneOverlap * 100)}% in danger zone</span>
+              )}
             </div>
             
             <div className="flex items-center justify-between text-xs">
               <div className="flex items-center gap-2 text-muted-foreground">
                 <Clock className="h-3 w-3" />
                 {getTimeAgo(detection.timestamp)}
+                {detection.timeInVideo !== undefined && (
+                  <span>• at {detection.timeInVideo.toFixed(1)}s</span>
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                {canSelect && onExportClip && !exportingClip && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2 text-xs"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onExportClip(detection);
+                    }}
+                  >
+                    <Scissors className="h-3 w-3 mr-1" />
+                    Export clip
+                  </Button>
+                )}
+                <Badge variant="outline" className={getDangerColor(detection.dangerLevel)}>
+                  {detection.dangerLevel.toUpperCase()}
+                </Badge>
               </div>
-              <Badge variant="outline" className={getDangerColor(detection.dangerLevel)}>
-                {detection.dangerLevel.toUpperCase()}
-              </Badge>
             </div>
+
+            {exportingClip?.detectionId === detection.id && (
+              <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                <Progress value={exportingClip.progress * 100} className="flex-1 h-1.5" />
+                <span className="text-xs text-muted-foreground">Recording clip</span>
+                {onCancelClip && (
+                  <Button size="sm" variant="ghost" className="h-6 w-6 p-0" onClick={onCancelClip}>
+                    <X className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            )}
           </div>
-        ))}
+          );
+        })}
         
         {detections.length === 0 && (
           <div className="text-center py-8 text-muted-foreground">
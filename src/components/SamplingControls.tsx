@@ -0,0 +1,246 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Timer } from 'lucide-react';
+import {
+  DEFAULT_ADAPTIVE,
+  describeSampling,
+  type AdaptiveSampling,
+  type SamplingConfig,
+  type SamplingMode,
+} from '@/lib/video/frameSampler';
+import { DEFAULT_MOTION_GATE, type MotionGate } from '@/lib/video/motion';
+import type { FrameSourcePreference } from '@/lib/video/frameSource';
+
+interface SamplingControlsProps {
+  cameraName: string;
+  sampling: SamplingConfig;
+  frameSource: FrameSourcePreference;
+  disabled?: boolean;
+  onChange: (sampling: SamplingConfig) => void;
+  onFrameSourceChange: (frameSource: FrameSourcePreference) => void;
+}
+
+const SAMPLING_MODES: { value: SamplingMode; label: string }[] = [
+  { value: 'seconds', label: 'Every N seconds' },
+  { value: 'frames', label: 'Every N frames' },
+  { value: 'every-frame', label: 'Every frame' },
+];
+
+const parsePositive = (value: string, fallback: number): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export function SamplingControls({
+  cameraName,
+  sampling,
+  frameSource,
+  disabled,
+  onChange,
+  onFrameSourceChange,
+}: SamplingControlsProps) {
+  const adaptive = sampling.adaptive ?? DEFAULT_ADAPTIVE;
+  const updateAdaptive = (changes: Partial<AdaptiveSampling>) =>
+    onChange({ ...sampling, adaptive: { ...adaptive, ...changes } });
+  const gate = sampling.motionGate ?? DEFAULT_MOTION_GATE;
+  const updateGate = (changes: Partial<MotionGate>) =>
+    onChange({ ...sampling, motionGate: { ...gate, ...changes } });
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-sm">
+          <Timer className="h-4 w-4 text-primary" />
+          Frame Sampling
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Analysing {describeSampling(sampling)}. Saved for {cameraName}.
+        </p>
+
+        <div className="flex items-center justify-between gap-4">
+          <Label className="text-xs text-muted-foreground">Mode</Label>
+          <Select
+            value={sampling.mode}
+            onValueChange={(mode) => onChange({ ...sampling, mode: mode as SamplingMode })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-40 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SAMPLING_MODES.map(mode => (
+                <SelectItem key={mode.value} value={mode.value}>
+                  {mode.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {sampling.mode !== 'every-frame' && (
+          <div className="flex items-center justify-between gap-4">
+            <Label className="text-xs text-muted-foreground">
+              {sampling.mode === 'frames' ? 'Frames between samples' : 'Seconds between samples'}
+            </Label>
+            <Input
+              type="number"
+              min={sampling.mode === 'frames' ? 1 : 0.1}
+              step={sampling.mode === 'frames' ? 1 : 0.5}
+              value={sampling.interval}
+              onChange={(e) => onChange({ ...sampling, interval: parsePositive(e.target.value, sampling.interval) })}
+              disabled={disabled}
+              className="w-24 h-8"
+            />
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-4">
+          <Label className="text-xs text-muted-foreground">Source frame rate (fps)</Label>
+          <Input
+            type="number"
+            min={1}
+            max={240}
+            value={sampling.frameRate}
+            onChange={(e) => onChange({ ...sampling, frameRate: parsePositive(e.target.value, sampling.frameRate) })}
+            disabled={disabled}
+            className="w-24 h-8"
+          />
+        </div>
+
+        {sampling.mode !== 'every-frame' && (
+          <div className="space-y-4 border-t border-border pt-4">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label className="text-xs text-foreground">Adaptive sampling</Label>
+                <p className="text-xs text-muted-foreground">
+                  Goes back over detections{adaptive.motion ? ' and motion' : ''} at a finer step
+                </p>
+              </div>
+              <Switch
+                checked={adaptive.enabled}
+                onCheckedChange={(enabled) => updateAdaptive({ enabled })}
+                disabled={disabled}
+              />
+            </div>
+
+            {adaptive.enabled && (
+              <>
+                <div className="flex items-center justify-between gap-4">
+                  <Label className="text-xs text-muted-foreground">Dense step (s)</Label>
+                  <Input
+                    type="number"
+                    min={0.04}
+                    step={0.1}
+                    value={adaptive.denseInterval}
+                    onChange={(e) => updateAdaptive({
+                      denseInterval: parsePositive(e.target.value, adaptive.denseInterval),
+                    })}
+                    disabled={disabled}
+                    className="w-24 h-8"
+                  />
+                </div>
+                <div className="flex items-center justify-between gap-4">
+                  <Label className="text-xs text-muted-foreground">Seconds either side</Label>
+                  <Input
+                    type="number"
+                    min={0.5}
+                    step={0.5}
+                    value={adaptive.window}
+                    onChange={(e) => updateAdaptive({ window: parsePositive(e.target.value, adaptive.window) })}
+                    disabled={disabled}
+                    className="w-24 h-8"
+                  />
+                </div>
+                <div className="flex items-center justify-between gap-4">
+                  <Label className="text-xs text-muted-foreground">Also flag motion</Label>
+                  <Switch
+                    checked={adaptive.motion}
+                    onCheckedChange={(motion) => updateAdaptive({ motion })}
+                    disabled={disabled}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-4 border-t border-border pt-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label className="text-xs text-foreground">Motion gate</Label>
+              <p className="text-xs text-muted-foreground">Skips detection on frames where nothing changed</p>
+            </div>
+            <Switch
+              checked={gate.enabled}
+              onCheckedChange={(enabled) => updateGate({ enabled })}
+              disabled={disabled}
+            />
+          </div>
+
+          {gate.enabled && (
+            <>
+              <div className="space-y-2">
+                <div className="flex justify-between text-xs">
+                  <span className="text-muted-foreground">Change threshold</span>
+                  <span className="font-medium text-foreground">{(gate.threshold * 100).toFixed(1)}%</span>
+                </div>
+                <Slider
+                  min={0.002}
+                  max={0.1}
+                  step={0.002}
+                  value={[gate.threshold]}
+                  onValueChange={([threshold]) => updateGate({ threshold })}
+                  disabled={disabled}
+                />
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <Label className="text-xs text-muted-foreground">Full check at least every (s)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={gate.forceInterval}
+                  onChange={(e) => updateGate({ forceInterval: parsePositive(e.target.value, gate.forceInterval) })}
+                  disabled={disabled}
+                  className="w-24 h-8"
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <Label className="text-xs text-muted-foreground">Decoder</Label>
+          <Select
+            value={frameSource}
+            onValueChange={(value) => onFrameSourceChange(value as FrameSourcePreference)}
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-40 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">WebCodecs (fast)</SelectItem>
+              <SelectItem value="element">Video element</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          WebCodecs decodes MP4/WebM without real-time seeking and falls back to the video element when unsupported.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, RotateCcw, Search, Tags, X } from 'lucide-react';
+import { useTaxonomy } from '@/hooks/useTaxonomy';
+import { useModelRegistry } from '@/hooks/useModelRegistry';
+import { useToast } from '@/hooks/use-toast';
+import {
+  COCO_LABELS,
+  DEFAULT_TAXONOMY,
+  TAXONOMY_TARGETS,
+  UNMAPPED_TARGET,
+  normalizeLabel,
+  type Taxonomy,
+  type TaxonomyTarget,
+} from '@/lib/detection/taxonomy';
+
+export function TaxonomySettings() {
+  const { taxonomy, setTaxonomy } = useTaxonomy();
+  const { selectedModel } = useModelRegistry();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<Taxonomy>(taxonomy);
+  const [filter, setFilter] = useState('');
+  const [newLabel, setNewLabel] = useState('');
+
+  // Start every editing session from the saved mapping
+  useEffect(() => {
+    if (open) {
+      setDraft(taxonomy);
+      setFilter('');
+      setNewLabel('');
+    }
+  }, [open, taxonomy]);
+
+  // Show the active model's classes too, so custom model labels can be mapped
+  const labels = useMemo(() => {
+    const modelLabels = (selectedModel?.classes ?? []).map(normalizeLabel);
+    const all = new Set([...COCO_LABELS, ...modelLabels, ...Object.keys(draft)]);
+    const query = normalizeLabel(filter);
+    return Array.from(all)
+      .filter(label => !query || label.includes(query))
+      .sort((a, b) => a.localeCompare(b));
+  }, [draft, filter, selectedModel]);
+
+  const ignoredCount = Object.values(draft).filter(target => target === 'ignore').length;
+
+  const handleTargetChange = (label: string, target: TaxonomyTarget) => {
+    setDraft(prev => ({ ...prev, [label]: target }));
+  };
+
+  const handleAddLabel = () => {
+    const label = normalizeLabel(newLabel);
+    if (!label) return;
+    setDraft(prev => ({ ...prev, [label]: prev[label] ?? UNMAPPED_TARGET }));
+    setNewLabel('');
+  };
+
+  const handleRemoveLabel = (label: string) => {
+    setDraft(prev => {
+      const next = { ...prev };
+      delete next[label];
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    setTaxonomy(draft);
+    setOpen(false);
+    toast({
+      title: "Class Mapping Saved",
+      description: `${Object.keys(draft).length} labels mapped, ${ignoredCount} ignored`,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Tags className="h-4 w-4 mr-2" />
+          Class Mapping
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Detection Class Mapping</DialogTitle>
+          <DialogDescription>
+            Choose how each model label is reported. Unlisted labels are treated as {UNMAPPED_TARGET}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-2 top-3 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter labels"
+              className="pl-8"
+            />
+          </div>
+          <Badge variant="outline" className="border-warning text-warning">
+            {ignoredCount} ignored
+          </Badge>
+        </div>
+
+        <ScrollArea className="h-80 pr-3">
+          <div className="space-y-2">
+            {labels.map(label => (
+              <div key={label} className="flex items-center gap-2">
+                <span className="flex-1 text-sm text-foreground truncate">{label}</span>
+                <Select
+                  value={draft[label] ?? UNMAPPED_TARGET}
+                  onValueChange={(value) => handleTargetChange(label, value as TaxonomyTarget)}
+                >
+                  <SelectTrigger className="w-32 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TAXONOMY_TARGETS.map(target => (
+                      <SelectItem key={target} value={target}>
+                        {target}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {!COCO_LABELS.includes(label) && label in draft ? (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleRemoveLabel(label)}
+                    className="text-destructive hover:text-destructive h-8 w-8 p-0"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                ) : (
+                  <div className="w-8" />
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <div className="flex items-center gap-2">
+          <Input
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddLabel()}
+            placeholder="Add custom model label"
+          />
+          <Button variant="outline" size="sm" onClick={handleAddLabel}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => setDraft(DEFAULT_TAXONOMY)}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Defaults
+          </Button>
+          <Button onClick={handleSave}>Save Mapping</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
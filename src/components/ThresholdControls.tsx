@@ -0,0 +1,70 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { RotateCcw, SlidersHorizontal } from 'lucide-react';
+import { DETECTION_TYPES, type DetectionType } from '@/lib/detection/taxonomy';
+import type { DetectionThresholds } from '@/lib/detection/thresholds';
+
+interface ThresholdControlsProps {
+  thresholds: DetectionThresholds;
+  onChange: (thresholds: DetectionThresholds) => void;
+  onReset: () => void;
+}
+
+export function ThresholdControls({ thresholds, onChange, onReset }: ThresholdControlsProps) {
+  const handleClassChange = (type: DetectionType, value: number) => {
+    onChange({
+      ...thresholds,
+      perClass: { ...thresholds.perClass, [type]: value },
+    });
+  };
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-sm">
+          <div className="flex items-center gap-2">
+            <SlidersHorizontal className="h-4 w-4 text-primary" />
+            Detection Thresholds
+          </div>
+          <Button size="sm" variant="ghost" onClick={onReset}>
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {DETECTION_TYPES.map(type => (
+          <div key={type} className="space-y-2">
+            <div className="flex justify-between text-xs">
+              <span className="text-muted-foreground capitalize">{type}</span>
+              <span className="font-medium text-foreground">
+                {Math.round(thresholds.perClass[type] * 100)}%
+              </span>
+            </div>
+            <Slider
+              min={0.05}
+              max={0.95}
+              step={0.05}
+              value={[thresholds.perClass[type]]}
+              onValueChange={([value]) => handleClassChange(type, value)}
+            />
+          </div>
+        ))}
+
+        <div className="space-y-2 pt-2 border-t border-border">
+          <div className="flex justify-between text-xs">
+            <span className="text-muted-foreground">Overlap suppression (IoU)</span>
+            <span className="font-medium text-foreground">{thresholds.nmsIoU.toFixed(2)}</span>
+          </div>
+          <Slider
+            min={0.1}
+            max={0.9}
+            step={0.05}
+            value={[thresholds.nmsIoU]}
+            onValueChange={([value]) => onChange({ ...thresholds, nmsIoU: value })}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
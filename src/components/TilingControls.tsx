@@ -0,0 +1,85 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Grid3x3 } from 'lucide-react';
+import { TILE_SIZES, type TilingConfig } from '@/lib/detection/tiling';
+
+interface TilingControlsProps {
+  cameraName: string;
+  tiling: TilingConfig;
+  tileCount: number;
+  onChange: (tiling: TilingConfig) => void;
+}
+
+export function TilingControls({ cameraName, tiling, tileCount, onChange }: TilingControlsProps) {
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-sm">
+          <div className="flex items-center gap-2">
+            <Grid3x3 className="h-4 w-4 text-primary" />
+            Sliced Inference
+          </div>
+          <Switch
+            checked={tiling.enabled}
+            onCheckedChange={(enabled) => onChange({ ...tiling, enabled })}
+          />
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Runs the detector on overlapping tiles to find small, distant objects. Saved for {cameraName}.
+        </p>
+
+        <div className="flex items-center justify-between gap-4">
+          <Label className="text-xs text-muted-foreground">Tile size</Label>
+          <Select
+            value={String(tiling.tileSize)}
+            onValueChange={(value) => onChange({ ...tiling, tileSize: Number(value) })}
+            disabled={!tiling.enabled}
+          >
+            <SelectTrigger className="w-32 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TILE_SIZES.map(size => (
+                <SelectItem key={size} value={String(size)}>
+                  {size}px
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between text-xs">
+            <span className="text-muted-foreground">Overlap</span>
+            <span className="font-medium text-foreground">{Math.round(tiling.overlap * 100)}%</span>
+          </div>
+          <Slider
+            min={0}
+            max={0.5}
+            step={0.05}
+            value={[tiling.overlap]}
+            onValueChange={([overlap]) => onChange({ ...tiling, overlap })}
+            disabled={!tiling.enabled}
+          />
+        </div>
+
+        {tiling.enabled && (
+          <p className="text-xs text-muted-foreground">
+            {tileCount > 0 ? `${tileCount} tiles + full frame per analysed frame` : 'Frame fits in one tile'}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
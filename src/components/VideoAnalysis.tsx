@@ -1,8 +1,7 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Progress } from '@/components/ui/progress';
 import { 
   Play, 
   Pause, 
@@ -12,20 +11,50 @@ import {
   Clock,
   Eye,
   Download,
-  CheckCircle
+  CheckCircle,
+  Cpu,
+  Square,
+  ScanEye,
+  MessageSquareText
 } from 'lucide-react';
 import { useYOLOv8Detection } from '@/hooks/useYOLOv8Detection';
-
-interface Detection {
-  id: string;
-  type: 'obstacle' | 'person' | 'animal' | 'debris' | 'vehicle';
-  confidence: number;
-  location: string;
-  dangerLevel: 'low' | 'medium' | 'high' | 'critical';
-  timestamp: Date;
-  description: string;
-  timeInVideo?: number; // Time in seconds when detection occurred
-}
+import { useTaxonomy } from '@/hooks/useTaxonomy';
+import { useDetectionThresholds } from '@/hooks/useDetectionThresholds';
+import { useModelRegistry } from '@/hooks/useModelRegistry';
+import { useUserId, useUserSetting } from '@/hooks/useUserSetting';
+import { useEvidenceSettings } from '@/hooks/useEvidenceSettings';
+import { useAnomalyDetection } from '@/hooks/useAnomalyDetection';
+import { useZeroShotSettings } from '@/hooks/useZeroShotSettings';
+import { useDangerZone } from '@/hooks/useDangerZone';
+import { useDepthEstimation } from '@/hooks/useDepthEstimation';
+import { ThresholdControls } from './ThresholdControls';
+import { TilingControls } from './TilingControls';
+import { SamplingControls } from './SamplingControls';
+import { DEFAULT_TILING, computeTiles, type TilingConfig } from '@/lib/detection/tiling';
+import { DEFAULT_SAMPLING, describeSampling, samplingStep, type SamplingConfig } from '@/lib/video/frameSampler';
+import { FRAME_SOURCE_LABELS, type FrameSourcePreference, type SourceFrame } from '@/lib/video/frameSource';
+import { DEFAULT_ENHANCE, describeEnhancement, type EnhanceSettings } from '@/lib/video/enhance';
+import { analysedTimes, isJobActive, jobDuration, skipRatio, type AnalysisJob } from '@/lib/analysis/job';
+import { useAnalysisJob } from '@/hooks/useAnalysisJob';
+import { toDetection } from '@/lib/detection/danger';
+import { detectionsAtTime } from '@/lib/detection/overlay';
+import type { Detection } from '@/lib/detection/types';
+import { DetectionOverlay } from './DetectionOverlay';
+import { DetectionTimeline } from './DetectionTimeline';
+import { EvidenceControls } from './EvidenceControls';
+import { AnomalyControls } from './AnomalyControls';
+import { DangerZoneControls } from './DangerZoneControls';
+import { DepthControls } from './DepthControls';
+import { EnhanceControls } from './EnhanceControls';
+import { AnnotatedExport } from './AnnotatedExport';
+import { useAnnotatedExport } from '@/hooks/useAnnotatedExport';
+import { captureEvidence } from '@/lib/evidence/capture';
+import { ZERO_SHOT_MODEL } from '@/lib/detection/zeroShot';
+import { DEFAULT_DEPTH_CALIBRATION, type DepthCalibration } from '@/lib/detection/depth';
+import { frameZone, type ZonePoint } from '@/lib/detection/dangerZone';
+import { corridorAtTime, createRailTracker } from '@/lib/detection/rails';
+import { collectReportEvidence } from '@/lib/evidence/report';
+import { adjacentEvent, buildTimelineEvents } from '@/lib/detection/timeline';
 
 interface UploadedVideo {
   id: string;
@@ -35,133 +64,187 @@ interface UploadedVideo {
   size: string;
   duration?: number;
   status: 'ready' | 'analyzing' | 'completed' | 'error';
+  job?: AnalysisJob;
+  detections?: Detection[];
 }
 
 interface VideoAnalysisProps {
   video: UploadedVideo;
   onDetection: (detection: Detection) => void;
   onAnalysisComplete: (videoId: string, detections: Detection[]) => void;
-  onStatusUpdate: (videoId: string, status: UploadedVideo['status']) => void;
+  onJobUpdate: (videoId: string, job: AnalysisJob) => void;
+  // Jump here once the video is ready; a new requestId repeats the jump
+  seekRequest?: { time: number; requestId: number } | null;
 }
 
 export function VideoAnalysis({ 
   video, 
   onDetection, 
   onAnalysisComplete, 
-  onStatusUpdate 
+  onJobUpdate,
+  seekRequest
 }: VideoAnalysisProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [progress, setProgress] = useState(0);
   const [currentTime, setCurrentTime] = useState(0);
-  const [detections, setDetections] = useState<Detection[]>([]);
-  const [analysisInterval, setAnalysisInterval] = useState<NodeJS.Timeout | null>(null);
+  // Earlier results come back with the video so they can be reviewed on playback
+  const [detections, setDetections] = useState<Detection[]>(video.detections ?? []);
+  const [showOverlay, setShowOverlay] = useState(true);
+  const foundRef = useRef<Detection[]>([]);
+  const [frameSize, setFrameSize] = useState({ width: 0, height: 0 });
   
-  const { isProcessing, error, processFrame } = useYOLOv8Detection();
-
-  const getDescriptionForType = (type: string): string => {
-    const descriptions: Record<string, string[]> = {
-      person: ['Person detected on tracks', 'Human presence detected', 'Pedestrian in danger zone'],
-      animal: ['Animal on railway tracks', 'Wildlife detected', 'Animal obstruction'],
-      vehicle: ['Vehicle on tracks', 'Unauthorized vehicle', 'Emergency vehicle'],
-      obstacle: ['Unknown object detected', 'Potential obstruction', 'Foreign object'],
-      debris: ['Debris on tracks', 'Scattered objects', 'Track obstruction'],
-    };
-    
-    const typeDescriptions = descriptions[type] || descriptions.obstacle;
-    return typeDescriptions[Math.floor(Math.random() * typeDescriptions.length)];
-  };
+  const { taxonomy } = useTaxonomy();
+  const userId = useUserId();
+  const { evidence, setEvidence, storedFrames, refreshStored, clearStored } = useEvidenceSettings();
+  const { thresholds, setThresholds, resetThresholds } = useDetectionThresholds();
+  const { selectedModel } = useModelRegistry();
+  // Each video stands in for a camera, so tiling is remembered per video name
+  const { value: tiling, update: setTiling } = useUserSetting<TilingConfig>(
+    `tiling:${video.name}`,
+    DEFAULT_TILING
+  );
+  const { value: sampling, update: setSampling } = useUserSetting<SamplingConfig>(
+    `sampling:${video.name}`,
+    DEFAULT_SAMPLING
+  );
+  const { value: enhance, update: setEnhance } = useUserSetting<EnhanceSettings>(
+    `enhance:${video.name}`,
+    DEFAULT_ENHANCE
+  );
+  const { value: frameSource, update: setFrameSource } = useUserSetting<FrameSourcePreference>(
+    'frame-source',
+    'auto'
+  );
+  const anomaly = useAnomalyDetection(video.name);
+  const { detect: detectAnomalies, save: saveBackground } = anomaly;
+  const { zeroShot } = useZeroShotSettings();
+  const dangerZone = useDangerZone(video.name);
+  const { zone } = dangerZone;
+  // Rail corridors found so far, per sample, for cab cameras
+  const railTrackerRef = useRef(createRailTracker());
+  const [corridors, setCorridors] = useState<Array<{ time: number; points: ZonePoint[] }>>([]);
+  const depth = useDepthEstimation();
+  const { settings: depthSettings, estimate: estimateDepth } = depth;
+  const { value: depthCalibration, update: setDepthCalibration } = useUserSetting<DepthCalibration>(
+    `depth:${video.name}`,
+    DEFAULT_DEPTH_CALIBRATION
+  );
+  const { error, backend, zeroShotStatus, processFrame } = useYOLOv8Detection({
+    model: selectedModel,
+    taxonomy,
+    thresholds,
+    zeroShot,
+  });
 
-  const getDangerLevel = (type: string, confidence: number): Detection['dangerLevel'] => {
-    if (confidence < 0.6) return 'low';
-    
-    switch (type) {
-      case 'person':
-        return confidence > 0.8 ? 'critical' : 'high';
-      case 'vehicle':
-        return 'critical';
-      case 'animal':
-        return confidence > 0.75 ? 'high' : 'medium';
-      case 'debris':
-        return confidence > 0.7 ? 'medium' : 'low';
-      case 'obstacle':
-        return confidence > 0.8 ? 'high' : 'medium';
-      default:
-        return 'medium';
+  // Errors propagate so the job fails with the reason instead of skipping frames
+  const analyzeFrame = useCallback(async ({ time: timeInVideo, image }: SourceFrame) => {
+    const video_element = videoRef.current;
+    if (!video_element || !canvasRef.current) {
+      throw new Error('Video element is not mounted');
     }
-  };
 
-  const analyzeCurrentFrame = useCallback(async () => {
-    if (!videoRef.current || !canvasRef.current || isProcessing) {
-      return;
+    // Decoded frames don't move the player, so it follows along where it can keep up
+    if (image !== video_element) {
+      if (!video_element.seeking) video_element.currentTime = timeInVideo;
+      setCurrentTime(timeInVideo);
+    }
+
+    const canvas = canvasRef.current;
+    const yoloDetections = await processFrame(canvas, image, { tiling, enhance });
+    // Whatever changed in the scene that YOLO couldn't put a name to
+    const anomalies = detectAnomalies(canvas, canvas.width, canvas.height, yoloDetections);
+    const depthMap = await estimateDepth(canvas);
+    const corridor = zone.enabled && zone.source === 'rails'
+      ? railTrackerRef.current.update(canvas, canvas.width, canvas.height)
+      : null;
+    if (corridor) {
+      setCorridors(prev => [...prev, { time: timeInVideo, points: corridor.points }]);
     }
 
-    try {
-      const yoloDetections = await processFrame(canvasRef.current, videoRef.current);
-      
-      // Convert YOLOv8 detections to our format
-      yoloDetections.forEach(yoloDetection => {
-        const detection: Detection = {
-          id: yoloDetection.id,
-          type: yoloDetection.type,
-          confidence: yoloDetection.confidence,
-          location: `Video: ${video.name}`,
-          dangerLevel: getDangerLevel(yoloDetection.type, yoloDetection.confidence),
-          timestamp: new Date(),
-          description: getDescriptionForType(yoloDetection.type),
-          timeInVideo: videoRef.current?.currentTime || 0,
-        };
-        
-        setDetections(prev => [...prev, detection]);
-        onDetection(detection);
-      });
-      
-    } catch (err) {
-      console.error('Frame analysis failed:', err);
+    // Convert YOLOv8 detections to our format, with evidence from the same frame
+    const frameDetections = await captureEvidence(
+      canvas,
+      [...yoloDetections, ...anomalies].map(yoloDetection =>
+        toDetection(yoloDetection, { id: video.id, name: video.name }, timeInVideo, {
+          width: canvas.width,
+          height: canvas.height,
+          zone: frameZone(zone, corridor?.points ?? null),
+          depth: depthMap && { map: depthMap, settings: depthSettings, calibration: depthCalibration },
+        })
+      ),
+      { videoId: video.id, timeInVideo, settings: evidence, userId }
+    );
+
+    // Collected outside React state so completion sees every result
+    foundRef.current.push(...frameDetections);
+    setDetections(prev => [...prev, ...frameDetections]);
+    frameDetections.forEach(onDetection);
+    return frameDetections.length > 0;
+  }, [
+    video.id,
+    video.name,
+    processFrame,
+    detectAnomalies,
+    estimateDepth,
+    onDetection,
+    tiling,
+    enhance,
+    zone,
+    depthSettings,
+    depthCalibration,
+    evidence,
+    userId,
+  ]);
+
+  const handleJobUpdate = useCallback((job: AnalysisJob) => {
+    onJobUpdate(video.id, job);
+    if (job.state === 'completed') {
+      onAnalysisComplete(video.id, foundRef.current);
+    }
+    // The background learned so far is kept whenever a run stops
+    if (job.state !== 'running' && job.state !== 'queued') {
+      saveBackground();
+      refreshStored();
     }
-  }, [video.name, isProcessing, processFrame, onDetection]);
+  }, [video.id, onJobUpdate, onAnalysisComplete, saveBackground, refreshStored]);
 
-  const startAnalysis = useCallback(() => {
+  const { job, start, pause, resume, cancel } = useAnalysisJob({
+    videoId: video.id,
+    file: video.file,
+    frameSource,
+    sampling,
+    onFrame: analyzeFrame,
+    onUpdate: handleJobUpdate,
+  });
+  const isAnalyzing = job?.state === 'running';
+  const isPaused = job?.state === 'paused';
+  // Opening the frame source, before the first frame
+  const isStarting = job?.state === 'queued';
+  // Being analysed by the batch queue, which owns the video until it finishes
+  const isBatchRunning = video.status === 'analyzing' && !!video.job && video.job.id !== job?.id;
+
+  const startAnalysis = async () => {
     if (!videoRef.current) return;
-    
-    setIsAnalyzing(true);
+
+    videoRef.current.pause();
+    setIsPlaying(false);
+    foundRef.current = [];
     setDetections([]);
-    onStatusUpdate(video.id, 'analyzing');
-    
-    const video_element = videoRef.current;
-    video_element.currentTime = 0;
-    
-    // Analyze frame every 2 seconds of video content
-    const interval = setInterval(() => {
-      if (video_element.ended) {
-        // Analysis complete
-        clearInterval(interval);
-        setIsAnalyzing(false);
-        onStatusUpdate(video.id, 'completed');
-        onAnalysisComplete(video.id, detections);
-        return;
-      }
-      
-      analyzeCurrentFrame();
-      
-      // Jump to next analysis point (every 2 seconds)
-      video_element.currentTime += 2;
-      
-    }, 1000); // Check every second
-    
-    setAnalysisInterval(interval);
-  }, [video.id, analyzeCurrentFrame, onStatusUpdate, onAnalysisComplete, detections]);
+    railTrackerRef.current.reset();
+    setCorridors([]);
+    await anomaly.open();
+    start(videoRef.current);
+  };
 
-  const stopAnalysis = useCallback(() => {
-    if (analysisInterval) {
-      clearInterval(analysisInterval);
-      setAnalysisInterval(null);
-    }
-    setIsAnalyzing(false);
-    onStatusUpdate(video.id, 'ready');
-  }, [analysisInterval, video.id, onStatusUpdate]);
+  const resumeAnalysis = async () => {
+    if (!videoRef.current) return;
+
+    videoRef.current.pause();
+    setIsPlaying(false);
+    await anomaly.open();
+    resume(videoRef.current);
+  };
 
   const handlePlayPause = () => {
     if (!videoRef.current) return;
@@ -179,26 +262,55 @@ export function VideoAnalysis({
     
     videoRef.current.currentTime = 0;
     setCurrentTime(0);
-    setProgress(0);
     setDetections([]);
-    
-    if (isAnalyzing) {
-      stopAnalysis();
-    }
+    cancel();
   };
 
-  const exportReport = () => {
+  const exportReport = async () => {
+    // Images are read back from local storage and embedded as data URLs
+    const evidenceImages = await collectReportEvidence(detections);
     const report = {
       video: video.name,
       analysisDate: new Date().toISOString(),
       totalDetections: detections.length,
+      // Clean-up applied to frames before detection, null when off
+      preprocessing: enhance.enabled ? { summary: describeEnhancement(enhance), settings: enhance } : null,
+      // Frame-relative corners; detections carry how much of them was inside
+      dangerZone: zone.enabled
+        ? {
+            source: zone.source ?? 'drawn',
+            points: zone.points,
+            railCorridors: zone.source === 'rails' ? corridors : undefined,
+          }
+        : null,
+      job: job && {
+        state: job.state,
+        framesProcessed: job.framesProcessed,
+        framesSkipped: job.framesSkipped,
+        skipRatio: skipRatio(job),
+        frameSource: job.source,
+        sampling: describeSampling(sampling),
+        // Every timestamp that went through the detector, dense passes included
+        analysedFrames: analysedTimes(job),
+        flaggedFrames: job.flaggedTimes,
+        startedAt: job.startedAt?.toISOString() ?? null,
+        endedAt: job.endedAt?.toISOString() ?? null,
+        error: job.error,
+      },
       detections: detections.map(d => ({
         timeInVideo: d.timeInVideo || 0,
         type: d.type,
         confidence: d.confidence,
         dangerLevel: d.dangerLevel,
+        zoneOverlap: d.zoneOverlap ?? null,
+        distance: d.distance ?? null,
         description: d.description,
+        evidence: d.evidence && {
+          frameId: d.evidence.frameId,
+          crop: evidenceImages.crops[d.id] ?? null,
+        },
       })),
+      evidenceFrames: evidenceImages.frames,
     };
     
     const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
@@ -215,17 +327,12 @@ export function VideoAnalysis({
     if (!video_element) return;
 
     const handleTimeUpdate = () => {
-      const current = video_element.currentTime;
-      const duration = video_element.duration;
-      setCurrentTime(current);
-      setProgress(duration ? (current / duration) * 100 : 0);
+      setCurrentTime(video_element.currentTime);
     };
 
+    // Analysis ends when the sampler runs out of frames, not on 'ended'
     const handleEnded = () => {
       setIsPlaying(false);
-      if (isAnalyzing) {
-        stopAnalysis();
-      }
     };
 
     video_element.addEventListener('timeupdate', handleTimeUpdate);
@@ -235,7 +342,73 @@ export function VideoAnalysis({
       video_element.removeEventListener('timeupdate', handleTimeUpdate);
       video_element.removeEventListener('ended', handleEnded);
     };
-  }, [isAnalyzing, stopAnalysis]);
+  }, []);
+
+  const annotatedExport = useAnnotatedExport({
+    url: video.url,
+    file: video.file,
+    name: video.name,
+    detections,
+    overlayWindow: samplingStep(sampling),
+    frameRate: sampling.frameRate,
+  });
+
+  // A sample's boxes stay up until the next sample would have been taken
+  const overlayDetections = useMemo(
+    () => detectionsAtTime(detections, currentTime, samplingStep(sampling)),
+    [detections, currentTime, sampling]
+  );
+  const overlayZone = useMemo(() => {
+    if (!zone.enabled) return null;
+    if (zone.source !== 'rails') return zone.points;
+    return corridorAtTime(corridors, currentTime) ?? zone.points;
+  }, [zone, corridors, currentTime]);
+
+  const duration = video.duration ?? videoRef.current?.duration ?? 0;
+  const sampledTimes = useMemo(() => (job ? analysedTimes(job) : []), [job]);
+
+  // Pauses on the requested moment with its boxes shown
+  const seekTo = useCallback((time: number) => {
+    const video_element = videoRef.current;
+    if (!video_element || isAnalyzing) return;
+
+    video_element.pause();
+    setIsPlaying(false);
+    setShowOverlay(true);
+    video_element.currentTime = time;
+    setCurrentTime(time);
+  }, [isAnalyzing]);
+
+  useEffect(() => {
+    const video_element = videoRef.current;
+    if (!seekRequest || !video_element) return;
+
+    if (video_element.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      seekTo(seekRequest.time);
+      return;
+    }
+    const handleLoaded = () => seekTo(seekRequest.time);
+    video_element.addEventListener('loadedmetadata', handleLoaded, { once: true });
+    return () => video_element.removeEventListener('loadedmetadata', handleLoaded);
+  }, [seekRequest, seekTo]);
+
+  // [ and ] step between detection events
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== '[' && e.key !== ']') return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const event = adjacentEvent(buildTimelineEvents(detections), currentTime, e.key === ']' ? 1 : -1);
+      if (event) {
+        e.preventDefault();
+        seekTo(event.time);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [detections, currentTime, seekTo]);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -260,6 +433,18 @@ export function VideoAnalysis({
                   ANALYZING
                 </Badge>
               )}
+              {isPaused && (
+                <Badge variant="outline" className="border-warning text-warning">
+                  <Pause className="h-3 w-3 mr-1" />
+                  PAUSED
+                </Badge>
+              )}
+              {job?.state === 'failed' && (
+                <Badge variant="destructive">
+                  <AlertTriangle className="h-3 w-3 mr-1" />
+                  FAILED
+                </Badge>
+              )}
               {video.status === 'completed' && (
                 <Badge variant="default" className="bg-success">
                   <CheckCircle className="h-3 w-3 mr-1" />
@@ -277,7 +462,22 @@ export function VideoAnalysis({
               src={video.url}
               className="w-full h-full object-contain"
               onLoadedData={() => console.log('Video loaded')}
+              onLoadedMetadata={(e) => setFrameSize({
+                width: e.currentTarget.videoWidth,
+                height: e.currentTarget.videoHeight,
+              })}
             />
+
+            {/* Boxes for the frame on screen, while analysing or reviewing */}
+            {(showOverlay || dangerZone.draft) && (
+              <DetectionOverlay
+                detections={showOverlay ? overlayDetections : []}
+                frameWidth={frameSize.width}
+                frameHeight={frameSize.height}
+                zone={dangerZone.draft ?? overlayZone}
+                onZonePoint={dangerZone.draft ? dangerZone.addPoint : undefined}
+              />
+            )}
             
             {/* Hidden canvas for processing */}
             <canvas 
@@ -290,10 +490,20 @@ export function VideoAnalysis({
 
           {/* Controls */}
           <div className="space-y-2">
-            <Progress value={progress} className="w-full" />
+            <DetectionTimeline
+              detections={detections}
+              duration={duration}
+              currentTime={currentTime}
+              sampledTimes={sampledTimes}
+              disabled={isAnalyzing}
+              onSeek={seekTo}
+            />
             <div className="flex items-center justify-between text-xs text-muted-foreground">
               <span>{formatTime(currentTime)}</span>
-              <span>{video.duration ? formatTime(video.duration) : '0:00'}</span>
+              {detections.length > 0 && !isAnalyzing && (
+                <span>[ / ] previous / next event</span>
+              )}
+              <span>{duration ? formatTime(duration) : '0:00'}</span>
             </div>
             
             <div className="flex items-center gap-2">
@@ -313,13 +523,24 @@ export function VideoAnalysis({
               >
                 <RotateCcw className="h-4 w-4" />
               </Button>
+
+              <Button
+                size="sm"
+                variant={showOverlay ? 'default' : 'outline'}
+                onClick={() => setShowOverlay(!showOverlay)}
+                title={showOverlay ? 'Hide detection boxes' : 'Show detection boxes'}
+              >
+                <ScanEye className="h-4 w-4" />
+              </Button>
               
               <div className="flex-1" />
               
-              {!isAnalyzing && video.status !== 'analyzing' && (
+              {!isAnalyzing && !isPaused && !isStarting && (
                 <Button
                   size="sm"
                   onClick={startAnalysis}
+                  disabled={isBatchRunning}
+                  title={isBatchRunning ? 'Being analysed by the batch queue' : undefined}
                   className="bg-primary"
                 >
                   <Eye className="h-4 w-4 mr-2" />
@@ -328,13 +549,35 @@ export function VideoAnalysis({
               )}
               
               {isAnalyzing && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={pause}
+                >
+                  <Pause className="h-4 w-4 mr-2" />
+                  Pause
+                </Button>
+              )}
+
+              {isPaused && (
+                <Button
+                  size="sm"
+                  onClick={resumeAnalysis}
+                  className="bg-primary"
+                >
+                  <Play className="h-4 w-4 mr-2" />
+                  Resume
+                </Button>
+              )}
+
+              {(isAnalyzing || isPaused || isStarting) && (
                 <Button
                   size="sm"
                   variant="destructive"
-                  onClick={stopAnalysis}
+                  onClick={cancel}
                 >
-                  <AlertTriangle className="h-4 w-4 mr-2" />
-                  Stop Analysis
+                  <Square className="h-4 w-4 mr-2" />
+                  Cancel
                 </Button>
               )}
               
@@ -351,11 +594,35 @@ export function VideoAnalysis({
             </div>
           </div>
 
+          {/* Inference Backend */}
+          {backend && (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground" title={backend.reason}>
+              <Cpu className="h-3 w-3" />
+              <span>{selectedModel?.name} on</span>
+              <Badge variant="outline" className="border-primary text-primary">
+                {backend.label}
+              </Badge>
+              <span className="truncate">{backend.reason}</span>
+            </div>
+          )}
+
+          {zeroShotStatus && zeroShotStatus.state !== 'ready' && (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <MessageSquareText className="h-3 w-3" />
+              <span>
+                {ZERO_SHOT_MODEL.name}:{' '}
+                {zeroShotStatus.state === 'downloading'
+                  ? `downloading ${zeroShotStatus.progress}%`
+                  : zeroShotStatus.state === 'failed' ? zeroShotStatus.error : 'loading'}
+              </span>
+            </div>
+          )}
+
           {/* Error Display */}
-          {error && (
+          {(job?.error || error) && (
             <div className="bg-destructive/10 border border-destructive/20 rounded p-2">
               <p className="text-xs text-destructive font-medium">Analysis Error:</p>
-              <p className="text-xs text-muted-foreground">{error}</p>
+              <p className="text-xs text-muted-foreground">{job?.error || error}</p>
             </div>
           )}
         </CardContent>
@@ -389,11 +656,133 @@ export function VideoAnalysis({
             </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground">Progress:</span>
-              <span className="font-medium text-foreground">{Math.round(progress)}%</span>
+              <span className="font-medium text-foreground">{Math.round(job?.progress ?? 0)}%</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Frames Analysed:</span>
+              <span className="font-medium text-foreground">{job?.framesProcessed ?? 0}</span>
             </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Run Time:</span>
+              <span className="font-medium text-foreground">
+                {job ? formatTime(jobDuration(job)) : '0:00'}
+              </span>
+            </div>
+            {job && job.framesSkipped > 0 && (
+              <div className="flex justify-between col-span-2">
+                <span className="text-muted-foreground">Skipped (static):</span>
+                <span className="font-medium text-foreground">
+                  {job.framesSkipped} • {Math.round(skipRatio(job) * 100)}% of frames
+                </span>
+              </div>
+            )}
+            {(job?.flaggedTimes.length ?? 0) > 0 && (
+              <div className="flex justify-between col-span-2">
+                <span className="text-muted-foreground">Sampled Densely Around:</span>
+                <span className="font-medium text-foreground">
+                  {job?.flaggedTimes.length} flagged frame{job?.flaggedTimes.length === 1 ? '' : 's'}
+                </span>
+              </div>
+            )}
+            {job?.source && (
+              <div className="flex justify-between col-span-2">
+                <span className="text-muted-foreground">Frame Source:</span>
+                <span className="font-medium text-foreground">{FRAME_SOURCE_LABELS[job.source]}</span>
+              </div>
+            )}
+            {job?.startedAt && (
+              <div className="flex justify-between col-span-2 text-xs">
+                <span className="text-muted-foreground">
+                  Started {job.startedAt.toLocaleTimeString()}
+                  {job.endedAt && ` • Ended ${job.endedAt.toLocaleTimeString()}`}
+                </span>
+                <span className="font-medium text-foreground uppercase">{job.state}</span>
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
+
+      <AnnotatedExport
+        format={annotatedExport.format}
+        progress={annotatedExport.progress}
+        disabled={isAnalyzing || isPaused || detections.length === 0}
+        onFormatChange={annotatedExport.setFormat}
+        onStart={annotatedExport.start}
+        onCancel={annotatedExport.cancel}
+      />
+
+      <ThresholdControls
+        thresholds={thresholds}
+        onChange={setThresholds}
+        onReset={resetThresholds}
+      />
+
+      <SamplingControls
+        cameraName={video.name}
+        sampling={sampling}
+        frameSource={frameSource}
+        disabled={isAnalyzing || isPaused}
+        onChange={setSampling}
+        onFrameSourceChange={setFrameSource}
+      />
+
+      <TilingControls
+        cameraName={video.name}
+        tiling={tiling}
+        tileCount={computeTiles(frameSize.width, frameSize.height, tiling).length}
+        onChange={setTiling}
+      />
+
+      <EnhanceControls
+        cameraName={video.name}
+        settings={enhance}
+        videoRef={videoRef}
+        currentTime={currentTime}
+        disabled={isJobActive(job)}
+        onChange={setEnhance}
+      />
+
+      <DangerZoneControls
+        cameraName={video.name}
+        zone={zone}
+        draft={dangerZone.draft}
+        disabled={isJobActive(job)}
+        onChange={dangerZone.setZone}
+        onStartEditing={dangerZone.startEditing}
+        onSave={dangerZone.saveDraft}
+        onCancel={dangerZone.cancelEditing}
+        onReset={dangerZone.reset}
+      />
+
+      <DepthControls
+        cameraName={video.name}
+        settings={depthSettings}
+        calibration={depthCalibration}
+        status={depth.status}
+        disabled={isJobActive(job)}
+        onChange={depth.setSettings}
+        onCalibrationChange={setDepthCalibration}
+      />
+
+      <AnomalyControls
+        cameraName={video.name}
+        settings={anomaly.settings}
+        learnedFrames={anomaly.learnedFrames}
+        disabled={isJobActive(job)}
+        onChange={anomaly.setSettings}
+        onReset={anomaly.reset}
+      />
+
+      <EvidenceControls
+        evidence={evidence}
+        storedFrames={storedFrames}
+        disabled={isJobActive(job)}
+        onChange={setEvidence}
+        onClear={() => {
+          clearStored().catch(err => console.warn('Could not clear stored evidence:', err));
+        }}
+      />
     </div>
   );
 }
\ No newline at end of file
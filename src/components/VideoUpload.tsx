@@ -2,8 +2,18 @@ import React, { useRef, useState, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Upload, File, X, Play, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Upload, File, X, Play, AlertTriangle, CheckCircle, ChevronUp, ChevronDown, Clock } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import type { AnalysisJob } from '@/lib/analysis/job';
+import { QUEUE_PRIORITIES, canMoveEntry, type QueueEntry, type QueuePriority } from '@/lib/analysis/queue';
 
 interface UploadedVideo {
   id: string;
@@ -13,6 +23,7 @@ interface UploadedVideo {
   size: string;
   duration?: number;
   status: 'ready' | 'analyzing' | 'completed' | 'error';
+  job?: AnalysisJob;
 }
 
 interface VideoUploadProps {
@@ -20,13 +31,20 @@ interface VideoUploadProps {
   uploadedVideos: UploadedVideo[];
   onRemoveVideo: (id: string) => void;
   currentVideo?: UploadedVideo | null;
+  // Batch queue in run order; the list is shown in this order when given
+  queue?: QueueEntry[];
+  onMoveVideo?: (id: string, direction: -1 | 1) => void;
+  onPriorityChange?: (id: string, priority: QueuePriority) => void;
 }
 
 export function VideoUpload({ 
   onVideoSelect, 
   uploadedVideos, 
   onRemoveVideo, 
-  currentVideo 
+  currentVideo,
+  queue,
+  onMoveVideo,
+  onPriorityChange,
 }: VideoUploadProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
@@ -110,6 +128,12 @@ export function VideoUpload({
     event.preventDefault();
   }, []);
 
+  const orderedVideos = queue
+    ? queue
+        .map(entry => uploadedVideos.find(video => video.id === entry.videoId))
+        .filter((video): video is UploadedVideo => !!video)
+    : uploadedVideos;
+
   const getStatusColor = (status: UploadedVideo['status']) => {
     switch (status) {
       case 'ready': return 'bg-primary';
@@ -175,59 +199,128 @@ export function VideoUpload({
         {uploadedVideos.length > 0 && (
           <div className="space-y-2">
             <h4 className="text-sm font-medium text-foreground">Uploaded Videos</h4>
-            {uploadedVideos.map((video) => (
-              <div
-                key={video.id}
-                className={`flex items-center justify-between p-3 rounded-lg border ${
-                  currentVideo?.id === video.id ? 'border-primary bg-primary/5' : 'border-border'
-                }`}
-              >
-                <div className="flex items-center gap-3 flex-1">
-                  <File className="h-8 w-8 text-muted-foreground" />
-                  <div className="flex-1 min-w-0">
-                    <p className="text-sm font-medium text-foreground truncate">
-                      {video.name}
-                    </p>
-                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                      <span>{video.size}</span>
-                      {video.duration && (
-                        <>
-                          <span>•</span>
-                          <span>{Math.round(video.duration)}s</span>
-                        </>
+            {orderedVideos.map((video) => {
+              const entry = queue?.find(item => item.videoId === video.id);
+              const isQueued = video.job?.state === 'queued';
+              const showProgress = video.job?.state === 'running' || video.job?.state === 'paused';
+
+              return (
+                <div
+                  key={video.id}
+                  className={`p-3 rounded-lg border space-y-2 ${
+                    currentVideo?.id === video.id ? 'border-primary bg-primary/5' : 'border-border'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3 flex-1 min-w-0">
+                      {queue && onMoveVideo && (
+                        <div className="flex flex-col">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => onMoveVideo(video.id, -1)}
+                            disabled={!canMoveEntry(queue, video.id, -1)}
+                            className="h-4 w-6 p-0"
+                          >
+                            <ChevronUp className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => onMoveVideo(video.id, 1)}
+                            disabled={!canMoveEntry(queue, video.id, 1)}
+                            className="h-4 w-6 p-0"
+                          >
+                            <ChevronDown className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      )}
+                      <File className="h-8 w-8 text-muted-foreground" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-foreground truncate">
+                          {video.name}
+                        </p>
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                          <span>{video.size}</span>
+                          {video.duration && (
+                            <>
+                              <span>•</span>
+                              <span>{Math.round(video.duration)}s</span>
+                            </>
+                          )}
+                        </div>
+                        {video.status === 'error' && video.job?.error && (
+                          <p className="text-xs text-destructive truncate" title={video.job.error}>
+                            {video.job.error}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      {entry && onPriorityChange && (
+                        <Select
+                          value={entry.priority}
+                          onValueChange={(value) => onPriorityChange(video.id, value as QueuePriority)}
+                        >
+                          <SelectTrigger className="w-24 h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {QUEUE_PRIORITIES.map(priority => (
+                              <SelectItem key={priority} value={priority}>
+                                {priority}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                       )}
+
+                      {isQueued ? (
+                        <Badge variant="outline" className="border-primary text-primary">
+                          <Clock className="h-3 w-3" />
+                          QUEUED
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className={getStatusColor(video.status)}>
+                          {getStatusIcon(video.status)}
+                          {video.status.toUpperCase()}
+                        </Badge>
+                      )}
+                      
+                      {(video.status === 'ready' || video.status === 'error') && !isQueued && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => onVideoSelect(video)}
+                        >
+                          <Play className="h-4 w-4 mr-1" />
+                          Analyze
+                        </Button>
+                      )}
+                      
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => onRemoveVideo(video.id)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
                     </div>
                   </div>
-                </div>
 
-                <div className="flex items-center gap-2">
-                  <Badge variant="outline" className={getStatusColor(video.status)}>
-                    {getStatusIcon(video.status)}
-                    {video.status.toUpperCase()}
-                  </Badge>
-                  
-                  {video.status === 'ready' && (
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => onVideoSelect(video)}
-                    >
-                      <Play className="h-4 w-4 mr-1" />
-                      Analyze
-                    </Button>
+                  {showProgress && video.job && (
+                    <div className="flex items-center gap-2">
+                      <Progress value={video.job.progress} className="flex-1 h-1.5" />
+                      <span className="text-xs text-muted-foreground w-24 text-right">
+                        {Math.round(video.job.progress)}% • {video.job.framesProcessed} frames
+                      </span>
+                    </div>
                   )}
-                  
-                  <Button
-                    size="sm"
-                    variant="ghost"
-                    onClick={() => onRemoveVideo(video.id)}
-                    className="text-destructive hover:text-destructive"
-                  >
-                    <X className="h-4 w-4" />
-                  </Button>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         )}
 
@@ -0,0 +1,183 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { MessageSquareText, Plus, RotateCcw, X } from 'lucide-react';
+import { useZeroShotSettings } from '@/hooks/useZeroShotSettings';
+import { useToast } from '@/hooks/use-toast';
+import { TAXONOMY_TARGETS, UNMAPPED_TARGET, type TaxonomyTarget } from '@/lib/detection/taxonomy';
+import { formatModelSize } from '@/lib/detection/models';
+import {
+  DEFAULT_ZERO_SHOT,
+  ZERO_SHOT_MODEL,
+  promptTexts,
+  type ZeroShotSettings,
+} from '@/lib/detection/zeroShot';
+
+export function ZeroShotPrompts() {
+  const { zeroShot, setZeroShot } = useZeroShotSettings();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<ZeroShotSettings>(zeroShot);
+  const [newPrompt, setNewPrompt] = useState('');
+
+  // Start every editing session from the saved prompts
+  useEffect(() => {
+    if (open) {
+      setDraft(zeroShot);
+      setNewPrompt('');
+    }
+  }, [open, zeroShot]);
+
+  const handleAddPrompt = () => {
+    const text = newPrompt.trim();
+    if (!text) return;
+    setDraft(prev => ({ ...prev, prompts: [...prev.prompts, { text, target: UNMAPPED_TARGET }] }));
+    setNewPrompt('');
+  };
+
+  const updatePrompt = (index: number, changes: Partial<ZeroShotSettings['prompts'][number]>) => {
+    setDraft(prev => ({
+      ...prev,
+      prompts: prev.prompts.map((prompt, i) => (i === index ? { ...prompt, ...changes } : prompt)),
+    }));
+  };
+
+  const handleRemovePrompt = (index: number) => {
+    setDraft(prev => ({ ...prev, prompts: prev.prompts.filter((_, i) => i !== index) }));
+  };
+
+  const handleSave = () => {
+    const prompts = draft.prompts.filter(prompt => prompt.text.trim());
+    setZeroShot({ ...draft, prompts });
+    setOpen(false);
+    toast({
+      title: "Text Prompts Saved",
+      description: draft.enabled
+        ? `${promptTexts(prompts).length} prompts run alongside YOLO`
+        : 'Zero-shot detection is off',
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <MessageSquareText className="h-4 w-4 mr-2" />
+          Text Prompts
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Zero-shot Detection</DialogTitle>
+          <DialogDescription>
+            Describe objects YOLO has no class for. {ZERO_SHOT_MODEL.name} (
+            {formatModelSize(ZERO_SHOT_MODEL.sizeBytes)}) looks for each prompt on every analysed frame and
+            reports it as the chosen type. Map a prompt to ignore to keep it from being misreported.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-4">
+          <Label className="text-sm text-foreground">Run alongside YOLO</Label>
+          <Switch
+            checked={draft.enabled}
+            onCheckedChange={(enabled) => setDraft(prev => ({ ...prev, enabled }))}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between text-xs">
+            <span className="text-muted-foreground">Minimum score</span>
+            <span className="font-medium text-foreground">{Math.round(draft.threshold * 100)}%</span>
+          </div>
+          <Slider
+            min={0.02}
+            max={0.5}
+            step={0.01}
+            value={[draft.threshold]}
+            onValueChange={([threshold]) => setDraft(prev => ({ ...prev, threshold }))}
+          />
+        </div>
+
+        <ScrollArea className="h-64 pr-3">
+          <div className="space-y-2">
+            {draft.prompts.map((prompt, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  value={prompt.text}
+                  onChange={(e) => updatePrompt(index, { text: e.target.value })}
+                  className="flex-1 h-8"
+                />
+                <Select
+                  value={prompt.target}
+                  onValueChange={(value) => updatePrompt(index, { target: value as TaxonomyTarget })}
+                >
+                  <SelectTrigger className="w-32 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TAXONOMY_TARGETS.map(target => (
+                      <SelectItem key={target} value={target}>
+                        {target}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleRemovePrompt(index)}
+                  className="text-destructive hover:text-destructive h-8 w-8 p-0"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {draft.prompts.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-8">No prompts yet</p>
+            )}
+          </div>
+        </ScrollArea>
+
+        <div className="flex items-center gap-2">
+          <Input
+            value={newPrompt}
+            onChange={(e) => setNewPrompt(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddPrompt()}
+            placeholder='e.g. "fallen tree"'
+          />
+          <Button variant="outline" size="sm" onClick={handleAddPrompt}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => setDraft({ ...DEFAULT_ZERO_SHOT, enabled: draft.enabled })}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Defaults
+          </Button>
+          <Button onClick={handleSave}>Save Prompts</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { createAnalysisJob, isJobActive, isJobFinished, transitionJob, type AnalysisJob } from '@/lib/analysis/job';
+import { PAUSE_REASON, runAnalysisJob } from '@/lib/analysis/runner';
+import type { SamplingConfig } from '@/lib/video/frameSampler';
+import {
+  openFrameSource,
+  type FrameSource,
+  type FrameSourcePreference,
+  type SourceFrame,
+} from '@/lib/video/frameSource';
+
+interface AnalysisJobOptions {
+  videoId: string;
+  // Decoded directly when possible; the element is the fallback
+  file?: Blob;
+  frameSource?: FrameSourcePreference;
+  sampling: SamplingConfig;
+  // Resolves true when adaptive sampling should look around this frame
+  onFrame: (frame: SourceFrame) => Promise<boolean>;
+  onUpdate?: (job: AnalysisJob) => void;
+}
+
+export function useAnalysisJob({ videoId, file, frameSource = 'auto', sampling, onFrame, onUpdate }: AnalysisJobOptions) {
+  const [job, setJob] = useState<AnalysisJob | null>(null);
+  const jobRef = useRef<AnalysisJob | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Read at call time so a run always uses the latest callbacks
+  const onFrameRef = useRef(onFrame);
+  onFrameRef.current = onFrame;
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+
+  const applyJob = useCallback((next: AnalysisJob) => {
+    // Ignore late updates from a run that has been superseded
+    if (jobRef.current && jobRef.current.id !== next.id) return;
+    jobRef.current = next;
+    setJob(next);
+    onUpdateRef.current?.(next);
+  }, []);
+
+  const run = useCallback(async (video: HTMLVideoElement, from: AnalysisJob) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    let source: FrameSource | null = null;
+    try {
+      // Reopened on every resume; the decoder is not kept while paused
+      source = await openFrameSource(video, file, frameSource);
+      // Cancelled while the source was opening
+      if (!controller.signal.aborted) {
+        await runAnalysisJob(from, source, sampling, (frame) => onFrameRef.current(frame), {
+          signal: controller.signal,
+          onUpdate: applyJob,
+        });
+      }
+    } catch (err) {
+      // The source never opened, so the job has to be failed here, unless it
+      // was cancelled while opening and has already ended
+      if (!controller.signal.aborted && !isJobFinished(jobRef.current)) {
+        const error = err instanceof Error ? err.message : 'Unknown error';
+        const started = transitionJob(from, { type: from.state === 'paused' ? 'resume' : 'start' });
+        applyJob(transitionJob(started, { type: 'fail', error }));
+      }
+    } finally {
+      source?.close();
+    }
+
+    if (abortRef.current === controller) {
+      abortRef.current = null;
+    }
+  }, [file, frameSource, sampling, applyJob]);
+
+  const start = useCallback((video: HTMLVideoElement) => {
+    abortRef.current?.abort();
+    const next = createAnalysisJob(videoId);
+    jobRef.current = next;
+    setJob(next);
+    return run(video, next);
+  }, [videoId, run]);
+
+  const pause = useCallback(() => {
+    if (jobRef.current?.state === 'running') {
+      abortRef.current?.abort(PAUSE_REASON);
+    }
+  }, []);
+
+  const resume = useCallback((video: HTMLVideoElement) => {
+    const current = jobRef.current;
+    if (current?.state !== 'paused') return Promise.resolve();
+    return run(video, current);
+  }, [run]);
+
+  const cancel = useCallback(() => {
+    const current = jobRef.current;
+    if (current?.state === 'running') {
+      abortRef.current?.abort();
+    } else if (current?.state === 'queued' || current?.state === 'paused') {
+      // Nothing is running yet, at most a source opening, so finish the job here
+      abortRef.current?.abort();
+      applyJob(transitionJob(current, { type: 'cancel' }));
+    }
+  }, [applyJob]);
+
+  // A run doesn't outlive the component that owns the video element
+  useEffect(() => () => {
+    if (isJobActive(jobRef.current) || jobRef.current?.state === 'queued') cancel();
+  }, [cancel]);
+
+  return { job, start, pause, resume, cancel };
+}
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useToast } from './use-toast';
+import { useUserSetting } from './useUserSetting';
+import { exportAnnotatedVideo, type ExportMethod } from '@/lib/video/annotatedExport';
+import { RecordingCancelledError, downloadBlob, type RecordingFormat } from '@/lib/video/recorder';
+import type { Detection } from '@/lib/detection/types';
+
+interface AnnotatedExportOptions {
+  url: string;
+  file?: Blob;
+  name: string;
+  detections: Detection[];
+  overlayWindow: number;
+  frameRate: number;
+}
+
+export function useAnnotatedExport({ url, file, name, detections, overlayWindow, frameRate }: AnnotatedExportOptions) {
+  const { toast } = useToast();
+  const { value: format, update: setFormat } = useUserSetting<RecordingFormat>('annotated-export-format', 'webm');
+  const [progress, setProgress] = useState<{ fraction: number; method: ExportMethod } | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const start = useCallback(async () => {
+    if (controllerRef.current) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProgress({ fraction: 0, method: 'webcodecs' });
+
+    try {
+      const result = await exportAnnotatedVideo(url, {
+        title: name,
+        file,
+        detections,
+        overlayWindow,
+        frameRate,
+        format,
+        signal: controller.signal,
+        onProgress: (fraction, method) => setProgress({ fraction, method }),
+      });
+
+      downloadBlob(result.blob, `annotated_${name.replace(/\.[^.]+$/, '')}.${result.format}`);
+      toast({
+        title: "Annotated Video Exported",
+        description: `${result.format.toUpperCase()} rendered with ${result.method === 'webcodecs' ? 'WebCodecs' : 'MediaRecorder'}`,
+      });
+    } catch (err) {
+      if (err instanceof RecordingCancelledError) {
+        toast({ title: "Export Cancelled", description: `Annotated export of ${name} was stopped` });
+      } else {
+        console.error('Annotated export failed:', err);
+        toast({
+          title: "Annotated Export Failed",
+          description: err instanceof Error ? err.message : 'Unknown error',
+          variant: "destructive",
+        });
+      }
+    } finally {
+      controllerRef.current = null;
+      setProgress(null);
+    }
+  }, [url, file, name, detections, overlayWindow, frameRate, format, toast]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  // Leaving the view stops the export
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { format, setFormat, progress, start, cancel };
+}
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useUserSetting } from './useUserSetting';
+import {
+  DEFAULT_ANOMALY,
+  openAnomalyDetector,
+  type AnomalyDetector,
+  type AnomalySettings,
+} from '@/lib/detection/anomaly';
+import { clearBackground, loadBackground } from '@/lib/detection/backgroundStore';
+import type { DetectionResult } from '@/lib/detection/types';
+
+// Background-model anomalies for one camera; settings and background are both per camera
+export function useAnomalyDetection(cameraName: string) {
+  const { value: settings, update: setSettings } = useUserSetting<AnomalySettings>(
+    `anomaly:${cameraName}`,
+    DEFAULT_ANOMALY
+  );
+  const [learnedFrames, setLearnedFrames] = useState(0);
+  const detectorRef = useRef<AnomalyDetector | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const model = await loadBackground(cameraName);
+      setLearnedFrames(model?.frames ?? 0);
+    } catch (err) {
+      console.warn('Could not read the background model:', err);
+    }
+  }, [cameraName]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Called before a run starts or resumes, so setting changes apply to it
+  const open = useCallback(async () => {
+    detectorRef.current = settings.enabled ? await openAnomalyDetector(cameraName, settings) : null;
+  }, [cameraName, settings]);
+
+  const detect = useCallback((
+    image: CanvasImageSource,
+    width: number,
+    height: number,
+    explained: DetectionResult[]
+  ): DetectionResult[] => detectorRef.current?.detect(image, width, height, explained) ?? [], []);
+
+  // Keeps what this run learned for the camera's next video
+  const save = useCallback(async () => {
+    const detector = detectorRef.current;
+    if (!detector) return;
+    try {
+      await detector.save();
+      setLearnedFrames(detector.learnedFrames());
+    } catch (err) {
+      console.warn('Could not save the background model:', err);
+    }
+  }, []);
+
+  const reset = useCallback(async () => {
+    detectorRef.current = null;
+    await clearBackground(cameraName);
+    setLearnedFrames(0);
+  }, [cameraName]);
+
+  return { settings, setSettings, learnedFrames, open, detect, save, reset };
+}
@@ -0,0 +1,300 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useYOLOv8Detection } from './useYOLOv8Detection';
+import { useTaxonomy } from './useTaxonomy';
+import { useDetectionThresholds } from './useDetectionThresholds';
+import { useModelRegistry } from './useModelRegistry';
+import { useUserId, useUserSetting } from './useUserSetting';
+import { useZeroShotSettings } from './useZeroShotSettings';
+import { useDepthEstimation } from './useDepthEstimation';
+import { createAnalysisJob, isJobActive, transitionJob, type AnalysisJob } from '@/lib/analysis/job';
+import { runAnalysisJob } from '@/lib/analysis/runner';
+import {
+  moveEntry,
+  orderQueue,
+  reconcileQueue,
+  setEntryPriority,
+  summarizeBatch,
+  type BatchSummary,
+  type BatchVideoResult,
+  type QueueEntry,
+  type QueuePriority,
+} from '@/lib/analysis/queue';
+import { DEFAULT_ANOMALY, openAnomalyDetector, type AnomalySettings } from '@/lib/detection/anomaly';
+import { DEFAULT_DANGER_ZONE, frameZone, type DangerZone } from '@/lib/detection/dangerZone';
+import { createRailTracker } from '@/lib/detection/rails';
+import { DEFAULT_DEPTH_CALIBRATION, type DepthCalibration } from '@/lib/detection/depth';
+import { toDetection } from '@/lib/detection/danger';
+import { DEFAULT_TILING, type TilingConfig } from '@/lib/detection/tiling';
+import { DEFAULT_ENHANCE, describeEnhancement, type EnhanceSettings } from '@/lib/video/enhance';
+import type { Detection } from '@/lib/detection/types';
+import { DEFAULT_SAMPLING, type SamplingConfig } from '@/lib/video/frameSampler';
+import { openFrameSource, type FrameSource, type FrameSourcePreference } from '@/lib/video/frameSource';
+import { closeVideo, openVideo } from '@/lib/video/videoElement';
+import { loadUserSetting } from '@/lib/userSettings';
+import { DEFAULT_EVIDENCE, captureEvidence, type EvidenceSettings } from '@/lib/evidence/capture';
+
+interface BatchVideo {
+  id: string;
+  name: string;
+  file?: File;
+  url: string;
+  status: 'ready' | 'analyzing' | 'completed' | 'error';
+  job?: AnalysisJob;
+}
+
+// Being analysed from the single-video view, including while its source opens;
+// `batchJobId` is the batch's own job for the video, which doesn't count
+const analysedByHand = (video: BatchVideo, batchJobId?: string): boolean =>
+  !!video.job && video.job.id !== batchJobId && (video.job.state === 'queued' || isJobActive(video.job));
+
+interface BatchAnalysisOptions {
+  videos: BatchVideo[];
+  onJobUpdate: (videoId: string, job: AnalysisJob) => void;
+  onDetection: (detection: Detection) => void;
+  onVideoComplete?: (videoId: string, detections: Detection[]) => void;
+  onComplete?: (summary: BatchSummary) => void;
+}
+
+export function useBatchAnalysis({
+  videos,
+  onJobUpdate,
+  onDetection,
+  onVideoComplete,
+  onComplete,
+}: BatchAnalysisOptions) {
+  const userId = useUserId();
+  const { taxonomy } = useTaxonomy();
+  const { thresholds } = useDetectionThresholds();
+  const { selectedModel } = useModelRegistry();
+  const { zeroShot } = useZeroShotSettings();
+  const { status, zeroShotStatus, processFrame } = useYOLOv8Detection({
+    model: selectedModel,
+    taxonomy,
+    thresholds,
+    zeroShot,
+  });
+  const { settings: depthSettings, status: depthStatus, estimate: estimateDepth } = useDepthEstimation();
+  // Prompt detections and distances are part of every frame's results, so the
+  // queue waits for every model that is switched on
+  const modelReady = status.state === 'ready'
+    && (zeroShotStatus === null || zeroShotStatus.state === 'ready')
+    && (depthStatus === null || depthStatus.state === 'ready');
+  const { value: concurrency, update: setConcurrency } = useUserSetting<number>('batch-concurrency', 1);
+
+  const [entries, setEntries] = useState<QueueEntry[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [summary, setSummary] = useState<BatchSummary | null>(null);
+  // Bumped whenever a video finishes so the scheduler runs again
+  const [finishedCount, setFinishedCount] = useState(0);
+
+  // Queued jobs by video id, in the order they were queued
+  const pendingRef = useRef(new Map<string, AnalysisJob>());
+  const activeRef = useRef(new Map<string, AbortController>());
+  const resultsRef = useRef<BatchVideoResult[]>([]);
+  const startedAtRef = useRef(new Date());
+
+  // Read at call time so a long batch always uses the latest callbacks
+  const callbacksRef = useRef({ onJobUpdate, onDetection, onVideoComplete, onComplete });
+  callbacksRef.current = { onJobUpdate, onDetection, onVideoComplete, onComplete };
+
+  const videoIds = useMemo(() => videos.map(video => video.id), [videos]);
+  const queue = useMemo(() => orderQueue(reconcileQueue(entries, videoIds)), [entries, videoIds]);
+
+  const analyzeVideo = useCallback(async (video: BatchVideo, queued: AnalysisJob, controller: AbortController) => {
+    // Same per-camera settings the single-video view uses
+    const sampling = loadUserSetting<SamplingConfig>(userId, `sampling:${video.name}`, DEFAULT_SAMPLING);
+    const tiling = loadUserSetting<TilingConfig>(userId, `tiling:${video.name}`, DEFAULT_TILING);
+    const enhance = loadUserSetting<EnhanceSettings>(userId, `enhance:${video.name}`, DEFAULT_ENHANCE);
+    const evidence = loadUserSetting<EvidenceSettings>(userId, 'evidence', DEFAULT_EVIDENCE);
+    const preference = loadUserSetting<FrameSourcePreference>(userId, 'frame-source', 'auto');
+    const anomalySettings = loadUserSetting<AnomalySettings>(userId, `anomaly:${video.name}`, DEFAULT_ANOMALY);
+    const zone = loadUserSetting<DangerZone>(userId, `zone:${video.name}`, DEFAULT_DANGER_ZONE);
+    const calibration = loadUserSetting<DepthCalibration>(userId, `depth:${video.name}`, DEFAULT_DEPTH_CALIBRATION);
+    const detections: Detection[] = [];
+    let job = queued;
+
+    const update = (next: AnalysisJob) => {
+      job = next;
+      callbacksRef.current.onJobUpdate(video.id, next);
+    };
+
+    let element: HTMLVideoElement | null = null;
+    let source: FrameSource | null = null;
+    try {
+      element = await openVideo(video.url);
+      source = await openFrameSource(element, video.file, preference);
+      const anomalies = anomalySettings.enabled ? await openAnomalyDetector(video.name, anomalySettings) : null;
+      const canvas = document.createElement('canvas');
+      const rails = zone.enabled && zone.source === 'rails' ? createRailTracker() : null;
+
+      await runAnalysisJob(job, source, sampling, async ({ time, image }) => {
+        const results = await processFrame(canvas, image, { tiling, enhance });
+        const unexplained = anomalies?.detect(canvas, canvas.width, canvas.height, results) ?? [];
+        const depthMap = await estimateDepth(canvas);
+        const corridor = rails?.update(canvas, canvas.width, canvas.height) ?? null;
+        const frameDetections = await captureEvidence(
+          canvas,
+          [...results, ...unexplained].map(result => toDetection(result, video, time, {
+            width: canvas.width,
+            height: canvas.height,
+            zone: frameZone(zone, corridor?.points ?? null),
+            depth: depthMap && { map: depthMap, settings: depthSettings, calibration },
+          })),
+          { videoId: video.id, timeInVideo: time, settings: evidence, userId }
+        );
+        detections.push(...frameDetections);
+        frameDetections.forEach(callbacksRef.current.onDetection);
+        return frameDetections.length > 0;
+      }, { signal: controller.signal, onUpdate: update });
+      await anomalies?.save().catch(err => console.warn('Could not save the background model:', err));
+    } catch (err) {
+      // The video never opened, so the job has to be failed here
+      const error = err instanceof Error ? err.message : 'Unknown error';
+      update(transitionJob(transitionJob(job, { type: 'start' }), { type: 'fail', error }));
+    } finally {
+      source?.close();
+      if (element) closeVideo(element);
+    }
+
+    resultsRef.current.push({
+      videoId: video.id,
+      name: video.name,
+      job,
+      detections,
+      preprocessing: describeEnhancement(enhance),
+    });
+    if (job.state === 'completed') {
+      callbacksRef.current.onVideoComplete?.(video.id, detections);
+    }
+  }, [userId, processFrame, estimateDepth, depthSettings]);
+
+  // A queued video the batch won't run ends as cancelled. Its row only shows
+  // that while it still holds the batch's job, not one started by hand
+  const skipVideo = useCallback((video: BatchVideo, queued: AnalysisJob) => {
+    const cancelled = transitionJob(queued, { type: 'cancel' });
+    if (!video.job || video.job.id === queued.id) {
+      callbacksRef.current.onJobUpdate(video.id, cancelled);
+    }
+    resultsRef.current.push({
+      videoId: video.id,
+      name: video.name,
+      job: cancelled,
+      detections: [],
+      preprocessing: null,
+    });
+  }, []);
+
+  // Fill free slots from the front of the queue, and finish once it drains
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const active = activeRef.current;
+    const pending = pendingRef.current;
+    // Nothing launches until the shared model is ready; its worker queues the
+    // frames of parallel videos and runs them one after another
+    const limit = modelReady ? Math.max(1, concurrency) : 0;
+
+    for (const entry of queue) {
+      if (active.size >= limit) break;
+      const queued = pending.get(entry.videoId);
+      if (!queued) continue;
+
+      pending.delete(entry.videoId);
+      const video = videos.find(v => v.id === entry.videoId);
+      if (!video) continue;
+      // Started by hand in the meantime, so the batch leaves it alone
+      if (analysedByHand(video, queued.id)) {
+        skipVideo(video, queued);
+        continue;
+      }
+
+      const controller = new AbortController();
+      active.set(video.id, controller);
+      analyzeVideo(video, queued, controller).finally(() => {
+        active.delete(video.id);
+        setFinishedCount(count => count + 1);
+      });
+    }
+
+    // Videos removed from the upload list mid-batch are dropped
+    Array.from(pending.keys()).forEach(id => {
+      if (!videoIds.includes(id)) pending.delete(id);
+    });
+
+    if (pending.size === 0 && active.size === 0) {
+      const result = summarizeBatch(resultsRef.current, startedAtRef.current);
+      setSummary(result);
+      setIsRunning(false);
+      callbacksRef.current.onComplete?.(result);
+    }
+  }, [isRunning, modelReady, queue, concurrency, finishedCount, videos, videoIds, analyzeVideo, skipVideo]);
+
+  const start = useCallback(() => {
+    if (isRunning) return;
+
+    // Videos already analysed, or being analysed in the single-video view, are skipped
+    const runnable = queue.filter(entry => {
+      const video = videos.find(v => v.id === entry.videoId);
+      return (video?.status === 'ready' || video?.status === 'error') && !analysedByHand(video);
+    });
+    if (runnable.length === 0) return;
+
+    pendingRef.current = new Map(runnable.map(entry => {
+      const job = createAnalysisJob(entry.videoId);
+      callbacksRef.current.onJobUpdate(entry.videoId, job);
+      return [entry.videoId, job];
+    }));
+    resultsRef.current = [];
+    startedAtRef.current = new Date();
+    setSummary(null);
+    setIsRunning(true);
+  }, [isRunning, queue, videos]);
+
+  // Running videos are cancelled; the summary covers whatever finished
+  const stop = useCallback(() => {
+    pendingRef.current.forEach((job, videoId) => {
+      const cancelled = transitionJob(job, { type: 'cancel' });
+      callbacksRef.current.onJobUpdate(videoId, cancelled);
+      const video = videos.find(v => v.id === videoId);
+      resultsRef.current.push({
+        videoId,
+        name: video?.name ?? videoId,
+        job: cancelled,
+        detections: [],
+        preprocessing: null,
+      });
+    });
+    pendingRef.current.clear();
+    activeRef.current.forEach(controller => controller.abort());
+    // Nudge the scheduler in case nothing was running to report back
+    setFinishedCount(count => count + 1);
+  }, [videos]);
+
+  const move = useCallback((videoId: string, direction: -1 | 1) => {
+    setEntries(prev => moveEntry(reconcileQueue(prev, videoIds), videoId, direction));
+  }, [videoIds]);
+
+  const setPriority = useCallback((videoId: string, priority: QueuePriority) => {
+    setEntries(prev => setEntryPriority(reconcileQueue(prev, videoIds), videoId, priority));
+  }, [videoIds]);
+
+  // Nothing keeps decoding after the dashboard goes away
+  useEffect(() => () => {
+    pendingRef.current.clear();
+    activeRef.current.forEach(controller => controller.abort());
+  }, []);
+
+  return {
+    queue,
+    isRunning,
+    summary,
+    concurrency,
+    modelReady,
+    setConcurrency,
+    start,
+    stop,
+    move,
+    setPriority,
+    clearSummary: () => setSummary(null),
+  };
+}
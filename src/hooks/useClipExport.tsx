@@ -0,0 +1,69 @@
+import { useCallback, useRef, useState } from 'react';
+import { useToast } from './use-toast';
+import { useUserId, useUserSetting } from './useUserSetting';
+import { DEFAULT_CLIP, exportClip, type ClipSettings } from '@/lib/video/clip';
+import { DEFAULT_SAMPLING, samplingStep, type SamplingConfig } from '@/lib/video/frameSampler';
+import { RecordingCancelledError, downloadBlob } from '@/lib/video/recorder';
+import type { Detection } from '@/lib/detection/types';
+import { loadUserSetting } from '@/lib/userSettings';
+
+interface ClipVideo {
+  id: string;
+  name: string;
+  url: string;
+}
+
+export function useClipExport() {
+  const userId = useUserId();
+  const { toast } = useToast();
+  const { value: settings, update: setSettings } = useUserSetting<ClipSettings>('clip', DEFAULT_CLIP);
+  const [exporting, setExporting] = useState<{ detectionId: string; progress: number } | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const exportDetectionClip = useCallback(async (video: ClipVideo, detection: Detection, detections: Detection[]) => {
+    if (controllerRef.current || detection.timeInVideo === undefined) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setExporting({ detectionId: detection.id, progress: 0 });
+
+    // Boxes stay up for as long as they did in the player
+    const sampling = loadUserSetting<SamplingConfig>(userId, `sampling:${video.name}`, DEFAULT_SAMPLING);
+
+    try {
+      const clip = await exportClip(video.url, detection.timeInVideo, {
+        settings,
+        detections,
+        overlayWindow: samplingStep(sampling),
+        signal: controller.signal,
+        onProgress: (progress) => setExporting({ detectionId: detection.id, progress }),
+      });
+
+      const baseName = video.name.replace(/\.[^.]+$/, '');
+      downloadBlob(clip.blob, `clip_${baseName}_${detection.timeInVideo.toFixed(1)}s.${clip.format}`);
+      toast({
+        title: "Clip Exported",
+        description: `${(clip.end - clip.start).toFixed(1)}s ${clip.format.toUpperCase()} clip of ${detection.description}` +
+          (clip.format !== settings.format ? ` (${settings.format.toUpperCase()} is not supported here)` : ''),
+      });
+    } catch (err) {
+      if (!(err instanceof RecordingCancelledError)) {
+        console.error('Clip export failed:', err);
+        toast({
+          title: "Clip Export Failed",
+          description: err instanceof Error ? err.message : 'Unknown error',
+          variant: "destructive",
+        });
+      }
+    } finally {
+      controllerRef.current = null;
+      setExporting(null);
+    }
+  }, [userId, settings, toast]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  return { settings, setSettings, exporting, exportDetectionClip, cancel };
+}
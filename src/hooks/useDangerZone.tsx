@@ -0,0 +1,29 @@
+import { useCallback, useState } from 'react';
+import { useUserSetting } from './useUserSetting';
+import { DEFAULT_DANGER_ZONE, type DangerZone, type ZonePoint } from '@/lib/detection/dangerZone';
+
+// The camera's danger zone, plus a draft while the operator redraws it
+export function useDangerZone(cameraName: string) {
+  const { value: zone, update: setZone } = useUserSetting<DangerZone>(`zone:${cameraName}`, DEFAULT_DANGER_ZONE);
+  const [draft, setDraft] = useState<ZonePoint[] | null>(null);
+
+  const startEditing = useCallback(() => setDraft([]), []);
+  const cancelEditing = useCallback(() => setDraft(null), []);
+
+  const addPoint = useCallback((point: ZonePoint) => {
+    setDraft(prev => (prev ? [...prev, point] : prev));
+  }, []);
+
+  const saveDraft = useCallback(() => {
+    if (!draft || draft.length < 3) return;
+    setZone({ ...zone, enabled: true, points: draft });
+    setDraft(null);
+  }, [zone, draft, setZone]);
+
+  const reset = useCallback(() => {
+    setZone({ ...DEFAULT_DANGER_ZONE, enabled: zone.enabled, source: zone.source });
+    setDraft(null);
+  }, [zone.enabled, zone.source, setZone]);
+
+  return { zone, setZone, draft, startEditing, cancelEditing, addPoint, saveDraft, reset };
+}
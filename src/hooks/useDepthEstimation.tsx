@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useUserSetting } from './useUserSetting';
+import { acquireModel, type ModelHandle } from '@/lib/detection/modelManager';
+import { DEFAULT_DEPTH, DEPTH_MODEL, type DepthMap, type DepthSettings } from '@/lib/detection/depth';
+import type { ModelStatus } from '@/lib/detection/protocol';
+
+// The optional depth stage; the model is only downloaded once it is switched on
+export function useDepthEstimation() {
+  const { value: settings, update: setSettings } = useUserSetting<DepthSettings>('depth', DEFAULT_DEPTH);
+  const [status, setStatus] = useState<ModelStatus | null>(null);
+  const handleRef = useRef<ModelHandle | null>(null);
+
+  useEffect(() => {
+    if (!settings.enabled) {
+      setStatus(null);
+      return;
+    }
+
+    const handle = acquireModel(DEPTH_MODEL.repo, DEPTH_MODEL.dtypes, 'depth-estimation');
+    handleRef.current = handle;
+    setStatus(handle.getState().status);
+    const unsubscribe = handle.subscribe(state => setStatus(state.status));
+
+    return () => {
+      unsubscribe();
+      handle.release();
+      handleRef.current = null;
+    };
+  }, [settings.enabled]);
+
+  // Measures the frame already drawn on the canvas; null while the stage is off
+  const estimate = useCallback(async (canvas: HTMLCanvasElement): Promise<DepthMap | null> => {
+    const handle = handleRef.current;
+    if (!handle) return null;
+    if (handle.getState().status.state !== 'ready') {
+      throw new Error('Depth model not loaded');
+    }
+    return handle.estimateDepth(await createImageBitmap(canvas));
+  }, []);
+
+  const retry = useCallback(() => {
+    handleRef.current?.retry();
+  }, []);
+
+  return { settings, setSettings, status, estimate, retry };
+}
@@ -0,0 +1,12 @@
+import { DEFAULT_THRESHOLDS, type DetectionThresholds } from '@/lib/detection/thresholds';
+import { useUserSetting } from './useUserSetting';
+
+export function useDetectionThresholds() {
+  const { value, update, reset } = useUserSetting<DetectionThresholds>('thresholds', DEFAULT_THRESHOLDS);
+
+  return {
+    thresholds: value,
+    setThresholds: update,
+    resetThresholds: reset,
+  };
+}
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from 'react';
+import { DEFAULT_EVIDENCE, type EvidenceSettings } from '@/lib/evidence/capture';
+import { clearEvidence, countStoredFrames } from '@/lib/evidence/store';
+import { useUserSetting } from './useUserSetting';
+
+export function useEvidenceSettings() {
+  const { value, update, reset } = useUserSetting<EvidenceSettings>('evidence', DEFAULT_EVIDENCE);
+  // Frames kept in this browser; null until counted
+  const [storedFrames, setStoredFrames] = useState<number | null>(null);
+
+  const refreshStored = useCallback(() => {
+    countStoredFrames()
+      .then(setStoredFrames)
+      .catch(err => console.warn('Could not count stored evidence:', err));
+  }, []);
+
+  useEffect(refreshStored, [refreshStored]);
+
+  const clearStored = useCallback(async () => {
+    await clearEvidence();
+    refreshStored();
+  }, [refreshStored]);
+
+  return {
+    evidence: value,
+    setEvidence: update,
+    resetEvidence: reset,
+    storedFrames,
+    refreshStored,
+    clearStored,
+  };
+}
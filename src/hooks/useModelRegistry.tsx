@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  BUILTIN_MODELS,
+  DEFAULT_MODEL_ID,
+  buildCustomModelConfigs,
+  createCustomModelInfo,
+  parseLabelFile,
+  type ModelInfo,
+} from '@/lib/detection/models';
+import {
+  deleteCustomModel,
+  deleteModelFiles,
+  getCachedSize,
+  listCustomModels,
+  saveCustomModel,
+} from '@/lib/detection/modelStore';
+import type { DetectionTask } from '@/lib/detection/protocol';
+import { useUserSetting } from './useUserSetting';
+
+const MODEL_REGISTRY_EVENT = 'railway-monitor:model-registry-change';
+
+const notifyRegistryChange = () => window.dispatchEvent(new Event(MODEL_REGISTRY_EVENT));
+
+const encodeJson = (value: unknown) => ({
+  data: new TextEncoder().encode(JSON.stringify(value, null, 2)).buffer as ArrayBuffer,
+  contentType: 'application/json',
+});
+
+interface ImportModelOptions {
+  name: string;
+  modelFile: File;
+  labelFile: File;
+  inputResolution: number;
+  task: DetectionTask;
+}
+
+export function useModelRegistry() {
+  const {
+    value: selectedId,
+    loaded: selectionLoaded,
+    update: setSelectedId,
+  } = useUserSetting<string>('model', DEFAULT_MODEL_ID);
+  const [customModels, setCustomModels] = useState<ModelInfo[] | null>(null);
+  const [cachedSizes, setCachedSizes] = useState<Record<string, number>>({});
+
+  const refresh = useCallback(async () => {
+    try {
+      const custom = await listCustomModels();
+      setCustomModels(custom);
+
+      const sizes = await Promise.all(
+        [...BUILTIN_MODELS, ...custom].map(async model => [model.id, await getCachedSize(model.repo)] as const)
+      );
+      setCachedSizes(Object.fromEntries(sizes));
+    } catch (err) {
+      console.error('Failed to read model registry:', err);
+      setCustomModels([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener(MODEL_REGISTRY_EVENT, refresh);
+    return () => window.removeEventListener(MODEL_REGISTRY_EVENT, refresh);
+  }, [refresh]);
+
+  const models = useMemo(() => [...BUILTIN_MODELS, ...(customModels ?? [])], [customModels]);
+
+  // Unknown until custom models and the user's choice are read, so consumers
+  // don't load the wrong model first
+  const selectedModel = customModels === null || !selectionLoaded
+    ? null
+    : models.find(model => model.id === selectedId) ?? BUILTIN_MODELS[0];
+
+  const importModel = useCallback(async ({ name, modelFile, labelFile, inputResolution, task }: ImportModelOptions) => {
+    const classes = parseLabelFile(await labelFile.text());
+    if (classes.length === 0) {
+      throw new Error('Label file contains no classes');
+    }
+
+    const info = createCustomModelInfo(name || modelFile.name, modelFile.size, classes, inputResolution, task);
+    const { config, preprocessorConfig } = buildCustomModelConfigs(classes, inputResolution, task);
+
+    await saveCustomModel(info, {
+      'config.json': encodeJson(config),
+      'preprocessor_config.json': encodeJson(preprocessorConfig),
+      'onnx/model.onnx': { data: await modelFile.arrayBuffer(), contentType: 'application/octet-stream' },
+    });
+
+    notifyRegistryChange();
+    return info;
+  }, []);
+
+  const removeModel = useCallback(async (model: ModelInfo) => {
+    if (model.source === 'custom') {
+      await deleteCustomModel(model);
+      if (model.id === selectedId) {
+        setSelectedId(DEFAULT_MODEL_ID);
+      }
+    } else {
+      await deleteModelFiles(model.repo);
+    }
+    notifyRegistryChange();
+  }, [selectedId, setSelectedId]);
+
+  return {
+    models,
+    selectedModel,
+    selectModel: setSelectedId,
+    cachedSizes,
+    importModel,
+    removeModel,
+    refresh,
+  };
+}
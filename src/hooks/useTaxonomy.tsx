@@ -0,0 +1,12 @@
+import { DEFAULT_TAXONOMY, type Taxonomy } from '@/lib/detection/taxonomy';
+import { useUserSetting } from './useUserSetting';
+
+export function useTaxonomy() {
+  const { value, update, reset } = useUserSetting<Taxonomy>('taxonomy', DEFAULT_TAXONOMY);
+
+  return {
+    taxonomy: value,
+    setTaxonomy: update,
+    resetTaxonomy: reset,
+  };
+}
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  USER_SETTING_EVENT,
+  clearUserSetting,
+  loadUserSetting,
+  saveUserSetting,
+  userSettingKey,
+} from '@/lib/userSettings';
+
+// The signed-in user, shared by every settings hook: one auth subscription and
+// one session read for the whole app. `resolved` stays false until the session
+// has been read, so "signed out" can be told apart from "not known yet"
+interface AuthUser {
+  userId: string | null;
+  resolved: boolean;
+}
+
+let authUser: AuthUser = { userId: null, resolved: false };
+const authListeners = new Set<() => void>();
+let authSubscribed = false;
+
+const setAuthUser = (userId: string | null) => {
+  if (authUser.resolved && authUser.userId === userId) return;
+  authUser = { userId, resolved: true };
+  authListeners.forEach(listener => listener());
+};
+
+// Subscribed on first use and kept for the lifetime of the page
+const subscribeAuthUser = (listener: () => void) => {
+  authListeners.add(listener);
+  if (!authSubscribed) {
+    authSubscribed = true;
+    supabase.auth.onAuthStateChange((event, session) => setAuthUser(session?.user?.id ?? null));
+    supabase.auth.getSession().then(({ data: { session } }) => setAuthUser(session?.user?.id ?? null));
+  }
+  return () => {
+    authListeners.delete(listener);
+  };
+};
+
+const getAuthUser = () => authUser;
+
+export function useAuthUser(): AuthUser {
+  return useSyncExternalStore(subscribeAuthUser, getAuthUser);
+}
+
+// Signed-in user id, or null while signed out; settings are namespaced by it
+export function useUserId() {
+  return useAuthUser().userId;
+}
+
+export function useUserSetting<T>(key: string, fallback: T) {
+  const fallbackRef = useRef(fallback);
+  fallbackRef.current = fallback;
+
+  const { userId, resolved } = useAuthUser();
+  const [value, setValue] = useState<T>(fallback);
+  // Storage key the value was last read from
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Another user's value (or the anonymous one) must never show in between
+    if (!resolved) return;
+    const storageKey = userSettingKey(userId, key);
+    setValue(loadUserSetting(userId, key, fallbackRef.current));
+    setLoadedKey(storageKey);
+
+    const handleChange = (event: Event) => {
+      if ((event as CustomEvent<string>).detail === storageKey) {
+        setValue(loadUserSetting(userId, key, fallbackRef.current));
+      }
+    };
+
+    window.addEventListener(USER_SETTING_EVENT, handleChange);
+    return () => window.removeEventListener(USER_SETTING_EVENT, handleChange);
+  }, [userId, resolved, key]);
+
+  const update = useCallback((next: T) => {
+    setValue(next);
+    saveUserSetting(userId, key, next);
+  }, [userId, key]);
+
+  const reset = useCallback(() => {
+    setValue(fallbackRef.current);
+    clearUserSetting(userId, key);
+  }, [userId, key]);
+
+  // False until the value has been read for the signed-in user
+  const loaded = resolved && loadedKey === userSettingKey(userId, key);
+
+  return { value, loaded, update, reset };
+}
@@ -1,103 +1,147 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-
-interface DetectionResult {
-  id: string;
-  type: 'person' | 'animal' | 'vehicle' | 'obstacle' | 'debris';
-  confidence: number;
-  bbox: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
-  center: {
-    x: number;
-    y: number;
-  };
-}
+import type { DetectionBackend } from '@/lib/detection/backend';
+import { acquireModel, type ModelHandle, type ModelState } from '@/lib/detection/modelManager';
+import { BUILTIN_MODELS, type ModelInfo } from '@/lib/detection/models';
+import { DEFAULT_TAXONOMY, type Taxonomy } from '@/lib/detection/taxonomy';
+import {
+  DEFAULT_THRESHOLDS,
+  applyThresholds,
+  minimumThreshold,
+  nonMaxSuppression,
+  type DetectionThresholds,
+} from '@/lib/detection/thresholds';
+import { computeTiles, type TilingConfig } from '@/lib/detection/tiling';
+import { isVideoFrame, type DetectionFrame, type ModelStatus } from '@/lib/detection/protocol';
+import type { DetectionResult } from '@/lib/detection/types';
+import type { EnhanceSettings } from '@/lib/video/enhance';
+import {
+  ZERO_SHOT_MODEL,
+  promptTaxonomy,
+  promptTexts,
+  type ZeroShotSettings,
+} from '@/lib/detection/zeroShot';
 
 interface YOLOv8Detection {
   detections: DetectionResult[];
   isProcessing: boolean;
   error: string | null;
-  processFrame: (canvas: HTMLCanvasElement, videoElement: HTMLVideoElement) => Promise<DetectionResult[]>;
+  backend: DetectionBackend | null;
+  status: ModelStatus;
+  // Null while zero-shot detection is switched off
+  zeroShotStatus: ModelStatus | null;
+  processFrame: (
+    canvas: HTMLCanvasElement,
+    source: HTMLVideoElement | VideoFrame,
+    options?: ProcessFrameOptions
+  ) => Promise<DetectionResult[]>;
+  retry: () => void;
+}
+
+interface ProcessFrameOptions {
+  // Sliced inference for small, distant objects; off unless enabled
+  tiling?: TilingConfig;
+  // Low-light and weather clean-up applied to the canvas before inference
+  enhance?: EnhanceSettings;
+}
+
+interface YOLOv8DetectionOptions {
+  // Pass null to hold off loading, e.g. while the model registry is still being read
+  model?: ModelInfo | null;
+  taxonomy?: Taxonomy;
+  thresholds?: DetectionThresholds;
+  // Text-prompted detections merged with YOLO's; off unless enabled
+  zeroShot?: ZeroShotSettings;
 }
 
-export function useYOLOv8Detection(): YOLOv8Detection {
+export function useYOLOv8Detection({
+  model = BUILTIN_MODELS[0],
+  taxonomy = DEFAULT_TAXONOMY,
+  thresholds = DEFAULT_THRESHOLDS,
+  zeroShot,
+}: YOLOv8DetectionOptions = {}): YOLOv8Detection {
   const [detections, setDetections] = useState<DetectionResult[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const modelRef = useRef<any>(null);
-  const isInitializing = useRef(false);
-
-  // YOLO class names mapping to our detection types
-  const classMapping: Record<number, string> = {
-    0: 'person',      // person
-    1: 'animal',      // bicycle -> treated as vehicle
-    2: 'vehicle',     // car
-    3: 'vehicle',     // motorcycle
-    5: 'vehicle',     // bus
-    7: 'vehicle',     // truck
-    15: 'animal',     // cat
-    16: 'animal',     // dog
-    17: 'animal',     // horse
-    18: 'animal',     // sheep
-    19: 'animal',     // cow
-    20: 'animal',     // elephant
-    21: 'animal',     // bear
-    22: 'animal',     // zebra
-    23: 'animal',     // giraffe
-  };
+  const [backend, setBackend] = useState<DetectionBackend | null>(null);
+  const [status, setStatus] = useState<ModelStatus>({ state: 'idle' });
+  const [zeroShotStatus, setZeroShotStatus] = useState<ModelStatus | null>(null);
+  const handleRef = useRef<ModelHandle | null>(null);
+  const zeroShotRef = useRef<ModelHandle | null>(null);
+  const taxonomyRef = useRef(taxonomy);
+  taxonomyRef.current = taxonomy;
+  // Read at call time so threshold changes apply to the very next frame
+  const thresholdsRef = useRef(thresholds);
+  thresholdsRef.current = thresholds;
+  const zeroShotSettingsRef = useRef(zeroShot);
+  zeroShotSettingsRef.current = zeroShot;
+  const zeroShotEnabled = zeroShot?.enabled ?? false;
 
-  const getDetectionType = (classId: number): DetectionResult['type'] => {
-    return (classMapping[classId] as DetectionResult['type']) || 'obstacle';
-  };
+  const modelRepo = model?.repo ?? null;
+  const modelDtypes = model?.dtypes.join(',') ?? '';
+  const modelTask = model?.task ?? 'object-detection';
 
-  // Initialize YOLOv8 model
+  // Attach to the shared model; the model manager loads it on first use
   useEffect(() => {
-    const initializeModel = async () => {
-      if (modelRef.current || isInitializing.current) return;
-      
-      try {
-        isInitializing.current = true;
-        setError(null);
-        
-        // Dynamic import to avoid SSR issues
-        const { pipeline } = await import('@huggingface/transformers');
-        
-        console.log('Loading YOLOv8 model...');
-        
-        // Initialize object detection pipeline with YOLOv8
-        const detector = await pipeline(
-          'object-detection',
-          'Xenova/yolov8n',
-          {
-            device: 'webgpu', // Use WebGPU for better performance, fallback to CPU
-            dtype: 'fp16',
-          }
-        );
-        
-        modelRef.current = detector;
-        console.log('YOLOv8 model loaded successfully');
-        
-      } catch (err) {
-        console.error('Failed to load YOLOv8 model:', err);
-        setError(`Failed to initialize YOLOv8: ${err instanceof Error ? err.message : 'Unknown error'}`);
-      } finally {
-        isInitializing.current = false;
-      }
+    if (!modelRepo) return;
+
+    const handle = acquireModel(modelRepo, modelDtypes.split(',') as ModelInfo['dtypes'], modelTask);
+    handleRef.current = handle;
+
+    const applyState = (state: ModelState) => {
+      setStatus(state.status);
+      setBackend(state.backend);
+      setError(state.status.state === 'failed' ? `Failed to initialize YOLOv8: ${state.status.error}` : null);
     };
 
-    initializeModel();
+    applyState(handle.getState());
+    const unsubscribe = handle.subscribe(applyState);
+
+    return () => {
+      unsubscribe();
+      handle.release();
+      handleRef.current = null;
+    };
+  }, [modelRepo, modelDtypes, modelTask]);
+
+  // The zero-shot model is only downloaded once someone switches it on
+  useEffect(() => {
+    if (!zeroShotEnabled) {
+      setZeroShotStatus(null);
+      return;
+    }
+
+    const handle = acquireModel(ZERO_SHOT_MODEL.repo, ZERO_SHOT_MODEL.dtypes, 'zero-shot-object-detection');
+    zeroShotRef.current = handle;
+    setZeroShotStatus(handle.getState().status);
+    const unsubscribe = handle.subscribe(state => setZeroShotStatus(state.status));
+
+    return () => {
+      unsubscribe();
+      handle.release();
+      zeroShotRef.current = null;
+    };
+  }, [zeroShotEnabled]);
+
+  // Reloads the shared models for every consumer
+  const retry = useCallback(() => {
+    handleRef.current?.retry();
+    zeroShotRef.current?.retry();
   }, []);
 
   const processFrame = useCallback(async (
-    canvas: HTMLCanvasElement, 
-    videoElement: HTMLVideoElement
+    canvas: HTMLCanvasElement,
+    source: HTMLVideoElement | VideoFrame,
+    { tiling, enhance }: ProcessFrameOptions = {}
   ): Promise<DetectionResult[]> => {
-    if (!modelRef.current) {
+    const handle = handleRef.current;
+    if (!handle || handle.getState().status.state !== 'ready') {
       throw new Error('YOLOv8 model not loaded');
     }
+    const zeroShotSettings = zeroShotSettingsRef.current;
+    const zeroShotHandle = zeroShotSettings?.enabled ? zeroShotRef.current : null;
+    if (zeroShotSettings?.enabled && zeroShotHandle?.getState().status.state !== 'ready') {
+      throw new Error('Zero-shot model not loaded');
+    }
 
     setIsProcessing(true);
     setError(null);
@@ -107,45 +151,57 @@ export function useYOLOv8Detection(): YOLOv8Detection {
       const ctx = canvas.getContext('2d');
       if (!ctx) throw new Error('Cannot get canvas context');
 
-      canvas.width = videoElement.videoWidth;
-      canvas.height = videoElement.videoHeight;
-      ctx.drawImage(videoElement, 0, 0);
-
-      // Convert canvas to image data for YOLOv8
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      
-      // Run YOLOv8 detection
-      const results = await modelRef.current(canvas);
-      
-      // Process results into our format
-      const processedDetections: DetectionResult[] = results.map((result: any, index: number) => {
-        const bbox = result.box;
-        const confidence = result.score;
-        const classId = result.class_id || 0;
-        
-        return {
-          id: `det-${Date.now()}-${index}`,
-          type: getDetectionType(classId),
-          confidence: confidence,
-          bbox: {
-            x: bbox.xmin,
-            y: bbox.ymin,
-            width: bbox.xmax - bbox.xmin,
-            height: bbox.ymax - bbox.ymin,
-          },
-          center: {
-            x: (bbox.xmin + bbox.xmax) / 2,
-            y: (bbox.ymin + bbox.ymax) / 2,
-          },
-        };
-      });
-
-      // Filter detections by confidence threshold
-      const filteredDetections = processedDetections.filter(det => det.confidence > 0.5);
-      
+      const decoded = isVideoFrame(source);
+      canvas.width = decoded ? source.displayWidth : source.videoWidth;
+      canvas.height = decoded ? source.displayHeight : source.videoHeight;
+      ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+      // Cleaned up in the worker, then drawn back so everything that reads the
+      // canvas afterwards (anomalies, depth, evidence) sees the same frame
+      const enhanced = !!enhance?.enabled;
+      if (enhance?.enabled) {
+        const frame = await handle.enhance(decoded ? source.clone() : await createImageBitmap(canvas), enhance);
+        ctx.drawImage(frame, 0, 0, canvas.width, canvas.height);
+        frame.close();
+      }
+
+      // Hand the frame to the worker without copying its pixels; decoded frames
+      // go as-is, cloned because the caller still owns and closes the original.
+      // Enhanced frames only exist on the canvas, so they always go from there
+      const toWorkerFrame = async (): Promise<DetectionFrame> =>
+        decoded && !enhanced ? source.clone() : createImageBitmap(canvas);
+      const tiles = tiling ? computeTiles(canvas.width, canvas.height, tiling) : [];
+      const [results, zeroShotResults] = await Promise.all([
+        toWorkerFrame().then(frame => handle.detect(
+          frame,
+          taxonomyRef.current,
+          minimumThreshold(thresholdsRef.current),
+          tiles
+        )),
+        // One full-frame pass: OWL-ViT is far too slow to run per tile
+        zeroShotHandle && zeroShotSettings && zeroShotSettings.prompts.length > 0
+          ? toWorkerFrame().then(frame => zeroShotHandle.detect(
+              frame,
+              promptTaxonomy(zeroShotSettings.prompts),
+              zeroShotSettings.threshold,
+              [],
+              promptTexts(zeroShotSettings.prompts)
+            ))
+          : Promise.resolve([]),
+      ]);
+
+      // Filter YOLO detections by per-class confidence (zero-shot ones were cut
+      // at their own threshold), then suppress overlapping boxes, which also
+      // merges duplicates from neighbouring tiles and from the two models.
+      // Ignored zero-shot boxes are only dropped afterwards, so a negative
+      // prompt suppresses the misread boxes it overlaps
+      const filteredDetections = nonMaxSuppression(
+        [...applyThresholds(results.filter(det => !det.ignored), thresholdsRef.current), ...zeroShotResults],
+        thresholdsRef.current.nmsIoU
+      ).filter(det => !det.ignored);
+
       setDetections(filteredDetections);
       return filteredDetections;
-      
+
     } catch (err) {
       const errorMsg = `Detection failed: ${err instanceof Error ? err.message : 'Unknown error'}`;
       setError(errorMsg);
@@ -160,6 +216,10 @@ export function useYOLOv8Detection(): YOLOv8Detection {
     detections,
     isProcessing,
     error,
+    backend,
+    status,
+    zeroShotStatus,
     processFrame,
+    retry,
   };
-}
\ No newline at end of file
+}
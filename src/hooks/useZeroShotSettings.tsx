@@ -0,0 +1,12 @@
+import { DEFAULT_ZERO_SHOT, type ZeroShotSettings } from '@/lib/detection/zeroShot';
+import { useUserSetting } from './useUserSetting';
+
+export function useZeroShotSettings() {
+  const { value, update, reset } = useUserSetting<ZeroShotSettings>('zero-shot', DEFAULT_ZERO_SHOT);
+
+  return {
+    zeroShot: value,
+    setZeroShot: update,
+    resetZeroShot: reset,
+  };
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analysedTimes,
+  canTransition,
+  createAnalysisJob,
+  isJobActive,
+  isJobFinished,
+  skipRatio,
+  transitionJob,
+  videoStatusForJob,
+  type AnalysisJob,
+  type AnalysisJobEvent,
+} from './job';
+
+const apply = (job: AnalysisJob, ...events: AnalysisJobEvent[]): AnalysisJob => events.reduce(transitionJob, job);
+
+const progress = (time: number, extra: Partial<Extract<AnalysisJobEvent, { type: 'progress' }>> = {}) => ({
+  type: 'progress' as const,
+  time,
+  flagged: false,
+  skipped: false,
+  progress: 0,
+  ...extra,
+});
+
+describe('createAnalysisJob', () => {
+  it('starts queued with distinct ids', () => {
+    const first = createAnalysisJob('video');
+    const second = createAnalysisJob('video');
+    expect(first.state).toBe('queued');
+    expect(first.videoId).toBe('video');
+    expect(first.id).not.toBe(second.id);
+  });
+});
+
+describe('transitionJob', () => {
+  it('runs, pauses, resumes and completes', () => {
+    const running = apply(createAnalysisJob('video'), { type: 'start', source: 'webcodecs' });
+    expect(running.state).toBe('running');
+    expect(running.source).toBe('webcodecs');
+    expect(running.startedAt).toBeInstanceOf(Date);
+
+    const paused = transitionJob(running, { type: 'pause' });
+    expect(paused.state).toBe('paused');
+
+    // Keeps the previous source when resumed without one
+    const resumed = transitionJob(paused, { type: 'resume' });
+    expect(resumed.state).toBe('running');
+    expect(resumed.source).toBe('webcodecs');
+
+    const completed = transitionJob(resumed, { type: 'complete' });
+    expect(completed.state).toBe('completed');
+    expect(completed.progress).toBe(100);
+    expect(completed.endedAt).toBeInstanceOf(Date);
+  });
+
+  it('records progress, skipped and flagged frames', () => {
+    const job = apply(
+      createAnalysisJob('video'),
+      { type: 'start' },
+      progress(0, { progress: 20 }),
+      progress(2, { skipped: true, progress: 40 }),
+      progress(4, { flagged: true, progress: 140 })
+    );
+    expect(job.position).toBe(4);
+    expect(job.sampledTimes).toEqual([0, 2, 4]);
+    expect(job.framesProcessed).toBe(2);
+    expect(job.framesSkipped).toBe(1);
+    expect(job.skippedTimes).toEqual([2]);
+    expect(job.flaggedTimes).toEqual([4]);
+    expect(job.progress).toBe(100);
+  });
+
+  it('keeps the error of a failed job', () => {
+    const failed = apply(createAnalysisJob('video'), { type: 'start' }, { type: 'fail', error: 'Decoder crashed' });
+    expect(failed.state).toBe('failed');
+    expect(failed.error).toBe('Decoder crashed');
+  });
+
+  it('can cancel a job before it starts', () => {
+    const cancelled = transitionJob(createAnalysisJob('video'), { type: 'cancel' });
+    expect(cancelled.state).toBe('cancelled');
+    expect(cancelled.endedAt).toBeInstanceOf(Date);
+  });
+
+  it('returns the job unchanged for events its state does not allow', () => {
+    const queued = createAnalysisJob('video');
+    expect(transitionJob(queued, { type: 'pause' })).toBe(queued);
+    expect(transitionJob(queued, progress(1))).toBe(queued);
+
+    const completed = apply(queued, { type: 'start' }, { type: 'complete' });
+    expect(transitionJob(completed, { type: 'cancel' })).toBe(completed);
+    expect(canTransition(completed, 'start')).toBe(false);
+    expect(canTransition(queued, 'start')).toBe(true);
+  });
+});
+
+describe('job status helpers', () => {
+  it('tells active from finished jobs', () => {
+    const queued = createAnalysisJob('video');
+    const running = transitionJob(queued, { type: 'start' });
+    const cancelled = transitionJob(running, { type: 'cancel' });
+    expect([queued, running, cancelled].map(job => isJobActive(job))).toEqual([false, true, false]);
+    expect([queued, running, cancelled].map(job => isJobFinished(job))).toEqual([false, false, true]);
+    expect(isJobActive(null)).toBe(false);
+  });
+
+  it('maps job states onto video statuses', () => {
+    expect(videoStatusForJob('queued')).toBe('ready');
+    expect(videoStatusForJob('running')).toBe('analyzing');
+    expect(videoStatusForJob('paused')).toBe('analyzing');
+    expect(videoStatusForJob('completed')).toBe('completed');
+    expect(videoStatusForJob('failed')).toBe('error');
+    expect(videoStatusForJob('cancelled')).toBe('ready');
+  });
+
+  it('lists analysed times in video order without skipped frames', () => {
+    const job = apply(
+      createAnalysisJob('video'),
+      { type: 'start' },
+      progress(4),
+      progress(0),
+      progress(2, { skipped: true }),
+      progress(1)
+    );
+    expect(analysedTimes(job)).toEqual([0, 1, 4]);
+    expect(skipRatio(job)).toBeCloseTo(0.25);
+    expect(skipRatio(createAnalysisJob('video'))).toBe(0);
+  });
+});
@@ -0,0 +1,151 @@
+// Lifecycle of one analysis run over a video. Transitions go through
+// transitionJob so every consumer agrees on which moves are legal.
+
+import type { FrameSourceKind } from '@/lib/video/frameSource';
+
+export type AnalysisJobState = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export interface AnalysisJob {
+  id: string;
+  videoId: string;
+  state: AnalysisJobState;
+  // 0 to 100, by frames analysed out of those planned so far
+  progress: number;
+  // Video time of the latest analysed frame
+  position: number;
+  // Frames that went through the detector
+  framesProcessed: number;
+  // Frames the motion gate judged static and left out
+  framesSkipped: number;
+  // Every timestamp visited, in the order it was; resuming skips these
+  sampledTimes: number[];
+  skippedTimes: number[];
+  // Frames from the sparse pass that adaptive sampling looks at more closely
+  flaggedTimes: number[];
+  // How frames were read on the latest run; null until it starts
+  source: FrameSourceKind | null;
+  startedAt: Date | null;
+  endedAt: Date | null;
+  error: string | null;
+}
+
+export type AnalysisJobEvent =
+  | { type: 'start'; source?: FrameSourceKind }
+  | { type: 'progress'; time: number; flagged: boolean; skipped: boolean; progress: number }
+  | { type: 'pause' }
+  | { type: 'resume'; source?: FrameSourceKind }
+  | { type: 'complete' }
+  | { type: 'fail'; error: string }
+  | { type: 'cancel' };
+
+const TRANSITIONS: Record<AnalysisJobState, Partial<Record<AnalysisJobEvent['type'], AnalysisJobState>>> = {
+  queued: { start: 'running', cancel: 'cancelled' },
+  running: { progress: 'running', pause: 'paused', complete: 'completed', fail: 'failed', cancel: 'cancelled' },
+  paused: { resume: 'running', cancel: 'cancelled' },
+  completed: {},
+  failed: {},
+  cancelled: {},
+};
+
+let nextJobId = 0;
+
+export function createAnalysisJob(videoId: string): AnalysisJob {
+  return {
+    id: `job-${Date.now()}-${nextJobId++}`,
+    videoId,
+    state: 'queued',
+    progress: 0,
+    position: 0,
+    framesProcessed: 0,
+    framesSkipped: 0,
+    sampledTimes: [],
+    skippedTimes: [],
+    flaggedTimes: [],
+    source: null,
+    startedAt: null,
+    endedAt: null,
+    error: null,
+  };
+}
+
+export const canTransition = (job: AnalysisJob, event: AnalysisJobEvent['type']): boolean =>
+  TRANSITIONS[job.state][event] !== undefined;
+
+// Returns the job unchanged when the event is not allowed in its current state
+export function transitionJob(job: AnalysisJob, event: AnalysisJobEvent): AnalysisJob {
+  const state = TRANSITIONS[job.state][event.type];
+  if (!state) return job;
+
+  const next: AnalysisJob = { ...job, state };
+  switch (event.type) {
+    case 'start':
+      next.startedAt = new Date();
+      next.source = event.source ?? null;
+      break;
+    case 'resume':
+      next.source = event.source ?? job.source;
+      break;
+    case 'progress':
+      next.position = event.time;
+      next.sampledTimes = [...job.sampledTimes, event.time];
+      if (event.skipped) {
+        next.framesSkipped = job.framesSkipped + 1;
+        next.skippedTimes = [...job.skippedTimes, event.time];
+      } else {
+        next.framesProcessed = job.framesProcessed + 1;
+      }
+      if (event.flagged) next.flaggedTimes = [...job.flaggedTimes, event.time];
+      next.progress = Math.min(100, Math.max(0, event.progress));
+      break;
+    case 'complete':
+      next.progress = 100;
+      next.endedAt = new Date();
+      break;
+    case 'fail':
+      next.error = event.error;
+      next.endedAt = new Date();
+      break;
+    case 'cancel':
+      next.endedAt = new Date();
+      break;
+  }
+  return next;
+}
+
+export const isJobActive = (job: AnalysisJob | null | undefined): boolean =>
+  job?.state === 'running' || job?.state === 'paused';
+
+export const isJobFinished = (job: AnalysisJob | null | undefined): boolean =>
+  job?.state === 'completed' || job?.state === 'failed' || job?.state === 'cancelled';
+
+// Collapses a job onto the coarser status shown in the upload list
+export function videoStatusForJob(state: AnalysisJobState): 'ready' | 'analyzing' | 'completed' | 'error' {
+  switch (state) {
+    case 'running':
+    case 'paused':
+      return 'analyzing';
+    case 'completed':
+      return 'completed';
+    case 'failed':
+      return 'error';
+    default:
+      return 'ready';
+  }
+}
+
+// Timestamps the detector actually ran on, in video order
+export function analysedTimes(job: AnalysisJob): number[] {
+  const skipped = new Set(job.skippedTimes);
+  return job.sampledTimes.filter(time => !skipped.has(time)).sort((a, b) => a - b);
+}
+
+// Share of visited frames the motion gate skipped, 0 to 1
+export function skipRatio(job: AnalysisJob): number {
+  const visited = job.framesProcessed + job.framesSkipped;
+  return visited > 0 ? job.framesSkipped / visited : 0;
+}
+
+export function jobDuration(job: AnalysisJob, now = new Date()): number {
+  if (!job.startedAt) return 0;
+  return ((job.endedAt ?? now).getTime() - job.startedAt.getTime()) / 1000;
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import type { Detection } from '@/lib/detection/types';
+import { createAnalysisJob, transitionJob, type AnalysisJobEvent } from './job';
+import {
+  canMoveEntry,
+  moveEntry,
+  orderQueue,
+  reconcileQueue,
+  setEntryPriority,
+  summarizeBatch,
+  type QueueEntry,
+} from './queue';
+
+const ids = (entries: QueueEntry[]) => entries.map(entry => entry.videoId);
+
+const queue: QueueEntry[] = [
+  { videoId: 'a', priority: 'normal' },
+  { videoId: 'b', priority: 'low' },
+  { videoId: 'c', priority: 'high' },
+  { videoId: 'd', priority: 'normal' },
+];
+
+describe('reconcileQueue', () => {
+  it('keeps existing entries, appends new videos and drops removed ones', () => {
+    const next = reconcileQueue(queue, ['e', 'd', 'c', 'a']);
+    expect(next).toEqual([
+      { videoId: 'a', priority: 'normal' },
+      { videoId: 'c', priority: 'high' },
+      { videoId: 'd', priority: 'normal' },
+      { videoId: 'e', priority: 'normal' },
+    ]);
+  });
+});
+
+describe('orderQueue', () => {
+  it('runs higher priorities first and keeps queue position within one', () => {
+    expect(ids(orderQueue(queue))).toEqual(['c', 'a', 'd', 'b']);
+  });
+
+  it('reorders when a priority changes', () => {
+    expect(ids(orderQueue(setEntryPriority(queue, 'b', 'high')))).toEqual(['b', 'c', 'a', 'd']);
+  });
+});
+
+describe('moveEntry', () => {
+  it('swaps with the neighbour of the same priority', () => {
+    expect(ids(moveEntry(queue, 'd', -1))).toEqual(['c', 'd', 'a', 'b']);
+    expect(canMoveEntry(queue, 'd', -1)).toBe(true);
+  });
+
+  it('never crosses a priority boundary or the ends of the queue', () => {
+    expect(ids(moveEntry(queue, 'a', -1))).toEqual(['c', 'a', 'd', 'b']);
+    expect(ids(moveEntry(queue, 'b', 1))).toEqual(['c', 'a', 'd', 'b']);
+    expect(ids(moveEntry(queue, 'missing', 1))).toEqual(['c', 'a', 'd', 'b']);
+    expect(canMoveEntry(queue, 'a', -1)).toBe(false);
+    expect(canMoveEntry(queue, 'b', 1)).toBe(false);
+    expect(canMoveEntry(queue, 'missing', 1)).toBe(false);
+  });
+});
+
+describe('summarizeBatch', () => {
+  const detection = (type: Detection['type'], dangerLevel: Detection['dangerLevel']): Detection => ({
+    id: `${type}-${dangerLevel}`,
+    type,
+    confidence: 0.9,
+    location: 'Track',
+    dangerLevel,
+    timestamp: new Date(),
+    description: type,
+  });
+
+  const job = (videoId: string, ...events: AnalysisJobEvent[]) =>
+    events.reduce(transitionJob, createAnalysisJob(videoId));
+
+  it('totals states, frames and detections across videos', () => {
+    const progress = (time: number, skipped = false): AnalysisJobEvent =>
+      ({ type: 'progress', time, flagged: false, skipped, progress: 50 });
+
+    const summary = summarizeBatch(
+      [
+        {
+          videoId: 'a',
+          name: 'a.mp4',
+          job: job('a', { type: 'start' }, progress(0), progress(2, true), { type: 'complete' }),
+          detections: [detection('person', 'critical'), detection('vehicle', 'low')],
+          preprocessing: 'dehaze 60%',
+        },
+        {
+          videoId: 'b',
+          name: 'b.mp4',
+          job: job('b', { type: 'start' }, progress(0), { type: 'fail', error: 'Decoder crashed' }),
+          detections: [detection('person', 'high')],
+          preprocessing: null,
+        },
+      ],
+      new Date(0)
+    );
+
+    expect(summary.videos).toBe(2);
+    expect(summary.states).toMatchObject({ completed: 1, failed: 1, running: 0 });
+    expect(summary.framesProcessed).toBe(2);
+    expect(summary.framesSkipped).toBe(1);
+    expect(summary.totalDetections).toBe(3);
+    expect(summary.byType).toMatchObject({ person: 2, vehicle: 1, debris: 0 });
+    expect(summary.byDangerLevel).toEqual({ low: 1, medium: 0, high: 1, critical: 1 });
+    expect(summary.perVideo.map(video => [video.videoId, video.critical, video.error, video.preprocessing])).toEqual([
+      ['a', 1, null, 'dehaze 60%'],
+      ['b', 0, 'Decoder crashed', null],
+    ]);
+    expect(summary.perVideo[0].skipRatio).toBeCloseTo(0.5);
+    expect(summary.perVideo[0].analysedFrames).toEqual([0]);
+  });
+});
@@ -0,0 +1,134 @@
+// Batch analysis queue: run order by priority then position, plus the summary
+// produced once every queued video has finished.
+
+import type { DangerLevel, Detection, DetectionResult } from '@/lib/detection/types';
+import { analysedTimes, jobDuration, skipRatio, type AnalysisJob, type AnalysisJobState } from './job';
+
+export type QueuePriority = 'high' | 'normal' | 'low';
+
+export const QUEUE_PRIORITIES: QueuePriority[] = ['high', 'normal', 'low'];
+
+export interface QueueEntry {
+  videoId: string;
+  priority: QueuePriority;
+}
+
+export const BATCH_CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const priorityRank = (priority: QueuePriority): number => QUEUE_PRIORITIES.indexOf(priority);
+
+// Keeps existing entries in place, appends new videos and drops removed ones
+export function reconcileQueue(entries: QueueEntry[], videoIds: string[]): QueueEntry[] {
+  const ids = new Set(videoIds);
+  const kept = entries.filter(entry => ids.has(entry.videoId));
+  const known = new Set(kept.map(entry => entry.videoId));
+  const added = videoIds
+    .filter(id => !known.has(id))
+    .map((videoId): QueueEntry => ({ videoId, priority: 'normal' }));
+  return [...kept, ...added];
+}
+
+// Run order: higher priority first, queue position within a priority
+export function orderQueue(entries: QueueEntry[]): QueueEntry[] {
+  return entries
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => priorityRank(a.entry.priority) - priorityRank(b.entry.priority) || a.index - b.index)
+    .map(({ entry }) => entry);
+}
+
+// Swaps with the neighbour in run order; moves never cross a priority boundary
+export function moveEntry(entries: QueueEntry[], videoId: string, direction: -1 | 1): QueueEntry[] {
+  const ordered = orderQueue(entries);
+  const index = ordered.findIndex(entry => entry.videoId === videoId);
+  const target = index + direction;
+  if (index < 0 || target < 0 || target >= ordered.length) return ordered;
+  if (ordered[target].priority !== ordered[index].priority) return ordered;
+
+  const next = [...ordered];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+export function canMoveEntry(entries: QueueEntry[], videoId: string, direction: -1 | 1): boolean {
+  const ordered = orderQueue(entries);
+  const index = ordered.findIndex(entry => entry.videoId === videoId);
+  const neighbour = ordered[index + direction];
+  return index >= 0 && !!neighbour && neighbour.priority === ordered[index].priority;
+}
+
+export function setEntryPriority(entries: QueueEntry[], videoId: string, priority: QueuePriority): QueueEntry[] {
+  return entries.map(entry => entry.videoId === videoId ? { ...entry, priority } : entry);
+}
+
+export interface BatchVideoResult {
+  videoId: string;
+  name: string;
+  job: AnalysisJob;
+  detections: Detection[];
+  // Frame clean-up the video was analysed with, null when off
+  preprocessing: string | null;
+}
+
+export interface BatchSummary {
+  startedAt: Date;
+  endedAt: Date;
+  videos: number;
+  states: Record<AnalysisJobState, number>;
+  framesProcessed: number;
+  framesSkipped: number;
+  totalDetections: number;
+  byDangerLevel: Record<DangerLevel, number>;
+  byType: Record<DetectionResult['type'], number>;
+  perVideo: {
+    videoId: string;
+    name: string;
+    state: AnalysisJobState;
+    detections: number;
+    critical: number;
+    duration: number;
+    error: string | null;
+    // Share of frames the motion gate left out
+    skipRatio: number;
+    // Timestamps that went through the detector, in video order
+    analysedFrames: number[];
+    preprocessing: string | null;
+  }[];
+}
+
+export function summarizeBatch(results: BatchVideoResult[], startedAt: Date, endedAt = new Date()): BatchSummary {
+  const states: BatchSummary['states'] = { queued: 0, running: 0, paused: 0, completed: 0, failed: 0, cancelled: 0 };
+  const byDangerLevel: BatchSummary['byDangerLevel'] = { low: 0, medium: 0, high: 0, critical: 0 };
+  const byType: BatchSummary['byType'] = { person: 0, animal: 0, vehicle: 0, obstacle: 0, debris: 0 };
+
+  results.forEach(({ job, detections }) => {
+    states[job.state]++;
+    detections.forEach(detection => {
+      byDangerLevel[detection.dangerLevel]++;
+      byType[detection.type]++;
+    });
+  });
+
+  return {
+    startedAt,
+    endedAt,
+    videos: results.length,
+    states,
+    framesProcessed: results.reduce((sum, { job }) => sum + job.framesProcessed, 0),
+    framesSkipped: results.reduce((sum, { job }) => sum + job.framesSkipped, 0),
+    totalDetections: results.reduce((sum, { detections }) => sum + detections.length, 0),
+    byDangerLevel,
+    byType,
+    perVideo: results.map(({ videoId, name, job, detections, preprocessing }) => ({
+      videoId,
+      name,
+      state: job.state,
+      detections: detections.length,
+      critical: detections.filter(d => d.dangerLevel === 'critical').length,
+      duration: jobDuration(job, endedAt),
+      error: job.error,
+      skipRatio: skipRatio(job),
+      analysedFrames: analysedTimes(job),
+      preprocessing,
+    })),
+  };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SAMPLING } from '@/lib/video/frameSampler';
+import type { FrameSource, SourceFrame } from '@/lib/video/frameSource';
+import { createAnalysisJob } from './job';
+import { PAUSE_REASON, runAnalysisJob } from './runner';
+
+// Hands out a frame per timestamp; the runner never reads the image itself
+// unless motion sampling is on
+const fakeSource = (duration: number): FrameSource => ({
+  kind: 'element',
+  duration,
+  async sample(times, onFrame, { signal } = {}) {
+    let framesProcessed = 0;
+    for (const time of times) {
+      if (signal?.aborted) return { framesProcessed, completed: false };
+      await onFrame({ time, image: null as unknown as SourceFrame['image'], width: 640, height: 360 });
+      framesProcessed++;
+    }
+    return { framesProcessed, completed: true };
+  },
+  close: () => {},
+});
+
+describe('runAnalysisJob', () => {
+  it('fails instead of sampling when the duration is unknown', async () => {
+    for (const duration of [Infinity, NaN, 0]) {
+      const onFrame = vi.fn(async () => false);
+      const job = await runAnalysisJob(createAnalysisJob('video'), fakeSource(duration), DEFAULT_SAMPLING, onFrame, {
+        signal: new AbortController().signal,
+        onUpdate: () => {},
+      });
+      expect(job.state).toBe('failed');
+      expect(job.error).toMatch(/duration is unknown/);
+      expect(onFrame).not.toHaveBeenCalled();
+    }
+  });
+
+  it('visits every sampled frame and completes', async () => {
+    const updates: string[] = [];
+    const job = await runAnalysisJob(createAnalysisJob('video'), fakeSource(7), DEFAULT_SAMPLING, async () => false, {
+      signal: new AbortController().signal,
+      onUpdate: next => updates.push(next.state),
+    });
+    expect(job.state).toBe('completed');
+    expect(job.sampledTimes).toEqual([0, 2, 4, 6]);
+    expect(job.source).toBe('element');
+    expect(updates[0]).toBe('running');
+  });
+
+  it('pauses on the pause reason and resumes where it stopped', async () => {
+    const controller = new AbortController();
+    const paused = await runAnalysisJob(createAnalysisJob('video'), fakeSource(7), DEFAULT_SAMPLING, async ({ time }) => {
+      if (time === 2) controller.abort(PAUSE_REASON);
+      return false;
+    }, { signal: controller.signal, onUpdate: () => {} });
+    expect(paused.state).toBe('paused');
+    expect(paused.sampledTimes).toEqual([0, 2]);
+
+    const visited: number[] = [];
+    const resumed = await runAnalysisJob(paused, fakeSource(7), DEFAULT_SAMPLING, async ({ time }) => {
+      visited.push(time);
+      return false;
+    }, { signal: new AbortController().signal, onUpdate: () => {} });
+    expect(visited).toEqual([4, 6]);
+    expect(resumed.state).toBe('completed');
+  });
+
+  it('cancels on any other abort', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const job = await runAnalysisJob(createAnalysisJob('video'), fakeSource(7), DEFAULT_SAMPLING, async () => false, {
+      signal: controller.signal,
+      onUpdate: () => {},
+    });
+    expect(job.state).toBe('cancelled');
+  });
+});
@@ -0,0 +1,122 @@
+// Drives an AnalysisJob through a frame source: a sparse pass over the whole
+// video, then, with adaptive sampling, a dense pass around flagged frames. The
+// motion gate keeps static frames of the sparse pass away from the detector.
+// Aborting the signal with PAUSE_REASON pauses the job before the next unsampled
+// frame; any other abort cancels it.
+
+import {
+  adaptiveSampling,
+  motionGate,
+  refinementTimes,
+  samplingTimes,
+  timeKey,
+  type SamplingConfig,
+} from '@/lib/video/frameSampler';
+import type { FrameSource, SourceFrame } from '@/lib/video/frameSource';
+import { MOTION_THRESHOLD, createMotionDetector } from '@/lib/video/motion';
+import { transitionJob, type AnalysisJob, type AnalysisJobEvent } from './job';
+
+export const PAUSE_REASON = 'pause';
+
+export interface RunAnalysisOptions {
+  signal: AbortSignal;
+  onUpdate: (job: AnalysisJob) => void;
+}
+
+// onFrame resolves true when the frame had detections worth a closer look
+export async function runAnalysisJob(
+  job: AnalysisJob,
+  source: FrameSource,
+  sampling: SamplingConfig,
+  onFrame: (frame: SourceFrame) => Promise<boolean>,
+  { signal, onUpdate }: RunAnalysisOptions
+): Promise<AnalysisJob> {
+  let current = job;
+  const update = (event: AnalysisJobEvent) => {
+    current = transitionJob(current, event);
+    onUpdate(current);
+  };
+
+  update({ type: job.state === 'paused' ? 'resume' : 'start', source: source.kind });
+
+  // Unknown until metadata loads, and Infinity for many MediaRecorder WebM files
+  if (!Number.isFinite(source.duration) || source.duration <= 0) {
+    update({ type: 'fail', error: 'Video duration is unknown, so frames cannot be sampled' });
+    return current;
+  }
+
+  const adaptive = adaptiveSampling(sampling);
+  const gate = motionGate(sampling);
+  const sparse = samplingTimes(sampling, source.duration);
+  const sparseKeys = new Set(sparse.map(timeKey));
+  // Rebuilt from the job, so a resumed run carries on where the last one stopped
+  const sampled = new Set(current.sampledTimes.map(timeKey));
+  const flagged = [...current.flaggedTimes];
+
+  const denseTimes = () => adaptive
+    ? refinementTimes(flagged, adaptive, source.duration).filter(time => !sparseKeys.has(timeKey(time)))
+    : [];
+  // Grows as the sparse pass flags frames
+  let planned = sparse.length + denseTimes().length;
+
+  // The dense pass is never gated: it exists to look closely
+  const runPass = (times: number[], sparsePass: boolean) => {
+    const motion = sparsePass && adaptive?.motion ? createMotionDetector() : null;
+    const gateMotion = sparsePass && gate ? createMotionDetector() : null;
+    let lastAnalysedAt: number | null = null;
+
+    return source.sample(times.filter(time => !sampled.has(timeKey(time))), async (frame) => {
+      // Measured first; the frame is only valid until onFrame settles
+      const moved = (motion?.measure(frame.image) ?? 0) > MOTION_THRESHOLD;
+      motion?.commit();
+
+      let skipped = false;
+      if (gate && gateMotion) {
+        // Compared with the last frame the detector saw, so slow changes still add up
+        const change = gateMotion.measure(frame.image);
+        const due = lastAnalysedAt === null || frame.time - lastAnalysedAt >= gate.forceInterval;
+        skipped = !due && change <= gate.threshold;
+      }
+
+      let found = false;
+      if (!skipped) {
+        found = await onFrame(frame);
+        gateMotion?.commit();
+        lastAnalysedAt = frame.time;
+      }
+      const isFlagged = sparsePass && adaptive !== null && (found || moved);
+
+      sampled.add(timeKey(frame.time));
+      if (isFlagged) {
+        flagged.push(frame.time);
+        planned = sparse.length + denseTimes().length;
+      }
+      update({
+        type: 'progress',
+        time: frame.time,
+        flagged: isFlagged,
+        skipped,
+        progress: planned > 0 ? (sampled.size / planned) * 100 : 100,
+      });
+    }, { signal });
+  };
+
+  try {
+    let result = await runPass(sparse, true);
+    if (result.completed && adaptive) {
+      result = await runPass(denseTimes(), false);
+    }
+
+    if (result.completed) {
+      update({ type: 'complete' });
+    } else if (signal.reason === PAUSE_REASON) {
+      update({ type: 'pause' });
+    } else {
+      update({ type: 'cancel' });
+    }
+  } catch (err) {
+    update({ type: 'fail', error: err instanceof Error ? err.message : 'Unknown error' });
+  }
+
+  return current;
+}
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_ANOMALY, createAnomalyDetector, type AnomalySettings } from './anomaly';
+import type { DetectionResult } from './types';
+
+// A scene as greyscale per background-model cell (160 wide), 0 to 1
+type Scene = (x: number, y: number) => number;
+
+// Just enough OffscreenCanvas for the detector: drawing a scene stores it and
+// reading pixels renders it at the canvas size
+class FakeCanvas {
+  private scene: Scene = () => 0;
+  constructor(public width: number, public height: number) {}
+  getContext() {
+    return {
+      drawImage: (image: Scene) => {
+        this.scene = image;
+      },
+      getImageData: (x: number, y: number, width: number, height: number) => {
+        const data = new Uint8ClampedArray(width * height * 4);
+        for (let row = 0; row < height; row++) {
+          for (let col = 0; col < width; col++) {
+            const value = Math.round(this.scene(col, row) * 255);
+            data.set([value, value, value, 255], (row * width + col) * 4);
+          }
+        }
+        return { data, width, height };
+      },
+    };
+  }
+}
+
+beforeEach(() => vi.stubGlobal('OffscreenCanvas', FakeCanvas));
+afterEach(() => vi.unstubAllGlobals());
+
+const empty: Scene = () => 0.2;
+// A bright square over an empty scene, in model cells
+const withSquare = (x0: number, y0: number, size: number): Scene => (x, y) =>
+  x >= x0 && x < x0 + size && y >= y0 && y < y0 + size ? 0.9 : 0.2;
+
+// 1600x900 frames give a 160x90 model, so each cell is 10 frame pixels
+const WIDTH = 1600;
+const HEIGHT = 900;
+const settings: AnomalySettings = { ...DEFAULT_ANOMALY, enabled: true, learningFrames: 2, persistence: 2 };
+
+const run = (
+  detector: ReturnType<typeof createAnomalyDetector>,
+  scene: Scene,
+  explained: DetectionResult[] = []
+) => detector.detect(scene as unknown as CanvasImageSource, WIDTH, HEIGHT, explained);
+
+const learned = () => {
+  const detector = createAnomalyDetector('cam', settings, null);
+  run(detector, empty);
+  run(detector, empty);
+  return detector;
+};
+
+describe('createAnomalyDetector', () => {
+  it('reports nothing while it learns the background', () => {
+    const detector = createAnomalyDetector('cam', settings, null);
+    expect(run(detector, withSquare(40, 20, 20))).toEqual([]);
+    expect(run(detector, withSquare(40, 20, 20))).toEqual([]);
+    expect(detector.learnedFrames()).toBe(2);
+  });
+
+  it('reports a blob once it has persisted, in frame pixels', () => {
+    const detector = learned();
+    expect(run(detector, withSquare(40, 20, 20))).toEqual([]);
+
+    const [result, ...rest] = run(detector, withSquare(40, 20, 20));
+    expect(rest).toEqual([]);
+    expect(result.type).toBe('obstacle');
+    expect(result.label).toBe('unknown object');
+    expect(result.bbox).toEqual({ x: 400, y: 200, width: 200, height: 200 });
+    expect(result.center).toEqual({ x: 500, y: 300 });
+    expect(result.confidence).toBeGreaterThan(0.4);
+    expect(result.confidence).toBeLessThanOrEqual(0.95);
+  });
+
+  it('calls small blobs debris and drops ones below the minimum area', () => {
+    const debris = learned();
+    run(debris, withSquare(10, 10, 8));
+    expect(run(debris, withSquare(10, 10, 8)).map(result => result.type)).toEqual(['debris']);
+
+    const speck = learned();
+    run(speck, withSquare(10, 10, 5));
+    expect(run(speck, withSquare(10, 10, 5))).toEqual([]);
+  });
+
+  it('leaves blobs a detector box already explains', () => {
+    const detector = learned();
+    const box: DetectionResult = {
+      id: 'yolo',
+      label: 'person',
+      type: 'person',
+      confidence: 0.9,
+      bbox: { x: 380, y: 180, width: 240, height: 240 },
+      center: { x: 500, y: 300 },
+    };
+    run(detector, withSquare(40, 20, 20), [box]);
+    expect(run(detector, withSquare(40, 20, 20), [box])).toEqual([]);
+  });
+
+  it('forgets a blob as soon as it leaves', () => {
+    const detector = learned();
+    run(detector, withSquare(40, 20, 20));
+    expect(run(detector, empty)).toEqual([]);
+    expect(run(detector, withSquare(40, 20, 20))).toEqual([]);
+  });
+
+  it('follows the scene quickly where it looks empty and slowly under foreground', () => {
+    const stored = {
+      camera: 'cam',
+      width: 160,
+      height: 90,
+      mean: new Float32Array(160 * 90).fill(0.2),
+      frames: 2,
+      updatedAt: 0,
+    };
+    const detector = createAnomalyDetector('cam', settings, stored);
+    // Slightly brighter everywhere, with a foreground square in the corner
+    const scene: Scene = (x, y) => (x < 10 && y < 10 ? 0.9 : 0.3);
+    run(detector, scene);
+
+    const luma = (value: number) => Math.round(value * 255) / 255;
+    expect(stored.mean[160 * 50 + 80]).toBeCloseTo(0.2 + (luma(0.3) - 0.2) * 0.05, 5);
+    expect(stored.mean[0]).toBeCloseTo(0.2 + (luma(0.9) - 0.2) * 0.002, 5);
+    expect(stored.frames).toBe(3);
+  });
+
+  it('starts learning again for a frame of another shape', () => {
+    const detector = learned();
+    detector.detect(empty as unknown as CanvasImageSource, 1600, 1200, []);
+    expect(detector.learnedFrames()).toBe(1);
+  });
+});
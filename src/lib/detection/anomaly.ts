@@ -0,0 +1,239 @@
+// Finds objects YOLO has no class for, such as rocks, fallen trees or debris.
+// Each camera learns a background of the empty scene; foreground blobs that
+// persist over several samples and that no YOLO box explains become
+// obstacle or debris detections. Assumes a fixed camera.
+
+import { loadBackground, saveBackground, type BackgroundModel } from './backgroundStore';
+import type { DetectionResult } from './types';
+
+export interface AnomalySettings {
+  enabled: boolean;
+  // Greyscale difference from the background that counts as foreground, 0 to 1
+  sensitivity: number;
+  // Consecutive samples a blob must stay before it is reported
+  persistence: number;
+  // Smallest blob worth reporting, as a share of the frame
+  minArea: number;
+  // Samples used to learn the background before anything is reported
+  learningFrames: number;
+}
+
+export const DEFAULT_ANOMALY: AnomalySettings = {
+  enabled: false,
+  sensitivity: 0.12,
+  persistence: 3,
+  minArea: 0.002,
+  learningFrames: 10,
+};
+
+const MODEL_WIDTH = 160;
+// How fast the background follows the scene where it looks empty, and where it doesn't
+const BACKGROUND_RATE = 0.05;
+const FOREGROUND_RATE = 0.002;
+// Blobs below this share of the frame are called debris, larger ones obstacles
+const DEBRIS_MAX_AREA = 0.01;
+// A YOLO box covering this much of a blob explains it
+const EXPLAINED_COVERAGE = 0.5;
+
+export interface AnomalyDetector {
+  // Learns from the frame and returns the unexplained blobs, in frame pixels
+  detect(image: CanvasImageSource, width: number, height: number, explained: DetectionResult[]): DetectionResult[];
+  // Frames learned so far, including those from earlier videos
+  learnedFrames(): number;
+  save(): Promise<void>;
+}
+
+interface ForegroundBlob {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  cells: number;
+  difference: number;
+  persistence: number;
+}
+
+let nextAnomalyId = 0;
+
+// 4-connected regions of the mask, with the summed difference and persistence inside
+function findBlobs(
+  mask: Uint8Array,
+  difference: Float32Array,
+  persistence: Uint16Array,
+  width: number,
+  height: number
+): ForegroundBlob[] {
+  const visited = new Uint8Array(mask.length);
+  const blobs: ForegroundBlob[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || visited[start]) continue;
+
+    const blob: ForegroundBlob = { minX: width, minY: height, maxX: 0, maxY: 0, cells: 0, difference: 0, persistence: 0 };
+    visited[start] = 1;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const index = stack.pop() as number;
+      const x = index % width;
+      const y = Math.floor(index / width);
+      blob.minX = Math.min(blob.minX, x);
+      blob.minY = Math.min(blob.minY, y);
+      blob.maxX = Math.max(blob.maxX, x);
+      blob.maxY = Math.max(blob.maxY, y);
+      blob.cells++;
+      blob.difference += difference[index];
+      blob.persistence += persistence[index];
+
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y < height - 1 ? index + width : -1,
+      ];
+      neighbours.forEach(neighbour => {
+        if (neighbour >= 0 && mask[neighbour] && !visited[neighbour]) {
+          visited[neighbour] = 1;
+          stack.push(neighbour);
+        }
+      });
+    }
+
+    blobs.push(blob);
+  }
+
+  return blobs;
+}
+
+// Share of `box` covered by `other`
+function coverage(box: DetectionResult['bbox'], other: DetectionResult['bbox']): number {
+  const width = Math.min(box.x + box.width, other.x + other.width) - Math.max(box.x, other.x);
+  const height = Math.min(box.y + box.height, other.y + other.height) - Math.max(box.y, other.y);
+  if (width <= 0 || height <= 0) return 0;
+  return (width * height) / (box.width * box.height);
+}
+
+export function createAnomalyDetector(
+  camera: string,
+  settings: AnomalySettings,
+  stored: BackgroundModel | null
+): AnomalyDetector {
+  let model = stored;
+  let persistence = new Uint16Array(0);
+  let canvas: OffscreenCanvas | null = null;
+
+  const prepare = (frameWidth: number, frameHeight: number): BackgroundModel => {
+    const height = Math.max(1, Math.round((MODEL_WIDTH * frameHeight) / frameWidth));
+    // A different aspect ratio means a different camera setup, so learning starts over
+    if (!model || model.width !== MODEL_WIDTH || model.height !== height) {
+      model = {
+        camera,
+        width: MODEL_WIDTH,
+        height,
+        mean: new Float32Array(MODEL_WIDTH * height),
+        frames: 0,
+        updatedAt: Date.now(),
+      };
+    }
+    if (persistence.length !== model.mean.length) {
+      persistence = new Uint16Array(model.mean.length);
+    }
+    if (!canvas || canvas.height !== height) {
+      canvas = new OffscreenCanvas(MODEL_WIDTH, height);
+    }
+    return model;
+  };
+
+  return {
+    detect(image, frameWidth, frameHeight, explained) {
+      if (!frameWidth || !frameHeight) return [];
+
+      const background = prepare(frameWidth, frameHeight);
+      const ctx = canvas?.getContext('2d', { willReadFrequently: true });
+      if (!ctx) throw new Error('Cannot get canvas context');
+      ctx.drawImage(image, 0, 0, background.width, background.height);
+      const { data } = ctx.getImageData(0, 0, background.width, background.height);
+
+      const cells = background.mean.length;
+      const luma = new Float32Array(cells);
+      for (let i = 0; i < cells; i++) {
+        luma[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+      }
+
+      // Still learning: a plain average of everything seen
+      if (background.frames < settings.learningFrames) {
+        const weight = 1 / (background.frames + 1);
+        for (let i = 0; i < cells; i++) {
+          background.mean[i] += (luma[i] - background.mean[i]) * weight;
+        }
+        background.frames++;
+        background.updatedAt = Date.now();
+        return [];
+      }
+
+      const difference = new Float32Array(cells);
+      const mask = new Uint8Array(cells);
+      for (let i = 0; i < cells; i++) {
+        difference[i] = Math.abs(luma[i] - background.mean[i]);
+        const foreground = difference[i] > settings.sensitivity;
+        persistence[i] = foreground ? Math.min(persistence[i] + 1, 0xffff) : 0;
+        mask[i] = persistence[i] >= settings.persistence ? 1 : 0;
+
+        // Foreground fades in slowly: a stationary object keeps being reported for
+        // a long while, but a lasting change to the scene is eventually learned
+        const rate = foreground ? FOREGROUND_RATE : BACKGROUND_RATE;
+        background.mean[i] += (luma[i] - background.mean[i]) * rate;
+      }
+      background.frames++;
+      background.updatedAt = Date.now();
+
+      const scaleX = frameWidth / background.width;
+      const scaleY = frameHeight / background.height;
+      const results: DetectionResult[] = [];
+
+      findBlobs(mask, difference, persistence, background.width, background.height).forEach(blob => {
+        const area = blob.cells / cells;
+        if (area < settings.minArea) return;
+
+        const bbox = {
+          x: blob.minX * scaleX,
+          y: blob.minY * scaleY,
+          width: (blob.maxX - blob.minX + 1) * scaleX,
+          height: (blob.maxY - blob.minY + 1) * scaleY,
+        };
+        if (explained.some(result => coverage(bbox, result.bbox) >= EXPLAINED_COVERAGE)) return;
+
+        // Stronger contrast and a longer stay both make the blob more believable
+        const contrast = Math.min(1, blob.difference / blob.cells / (settings.sensitivity * 3));
+        const stay = Math.min(1, blob.persistence / blob.cells / (settings.persistence * 3));
+        const confidence = Math.min(0.95, 0.4 + 0.4 * contrast + 0.2 * stay);
+        const type = area < DEBRIS_MAX_AREA ? 'debris' : 'obstacle';
+
+        results.push({
+          id: `anomaly-${Date.now()}-${nextAnomalyId++}`,
+          label: type === 'debris' ? 'unknown debris' : 'unknown object',
+          type,
+          confidence,
+          bbox,
+          center: { x: bbox.x + bbox.width / 2, y: bbox.y + bbox.height / 2 },
+        });
+      });
+
+      return results;
+    },
+    learnedFrames: () => model?.frames ?? 0,
+    save: () => (model ? saveBackground(model) : Promise.resolve()),
+  };
+}
+
+// Picks up the camera's stored background, if it has one
+export async function openAnomalyDetector(camera: string, settings: AnomalySettings): Promise<AnomalyDetector> {
+  let stored: BackgroundModel | null = null;
+  try {
+    stored = await loadBackground(camera);
+  } catch (err) {
+    console.warn(`Could not load the background for ${camera}, learning it again:`, err);
+  }
+  return createAnomalyDetector(camera, settings, stored);
+}
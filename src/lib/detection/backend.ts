@@ -0,0 +1,129 @@
+// Detection backend selection for the transformers.js pipeline.
+// Probes what the browser can actually run and returns an ordered list of
+// device/dtype candidates, best first, each with a human-readable reason.
+
+export type BackendDevice = 'webgpu' | 'wasm';
+export type BackendDtype = 'fp16' | 'fp32' | 'q8';
+
+export interface BackendCapabilities {
+  webgpu: boolean;
+  shaderF16: boolean;
+  wasmSimd: boolean;
+  wasmThreads: boolean;
+}
+
+export interface DetectionBackend {
+  id: string;
+  device: BackendDevice;
+  dtype: BackendDtype;
+  label: string;
+  reason: string;
+}
+
+interface GPUAdapterLike {
+  features: { has: (feature: string) => boolean };
+}
+
+interface NavigatorWithGPU {
+  gpu?: { requestAdapter: () => Promise<GPUAdapterLike | null> };
+}
+
+// Minimal modules from wasm-feature-detect: one uses a v128 instruction,
+// the other declares shared memory with an atomic op.
+const WASM_SIMD_PROBE = new Uint8Array([
+  0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11,
+]);
+const WASM_THREADS_PROBE = new Uint8Array([
+  0, 97, 115, 109, 1, 0, 0, 0, 1, 4, 1, 96, 0, 0, 3, 2, 1, 0, 5, 4, 1, 3, 1, 1, 10, 11, 1, 9, 0, 65, 0, 254, 16, 2, 0, 26, 11,
+]);
+
+const validateWasm = (bytes: Uint8Array): boolean => {
+  try {
+    return typeof WebAssembly === 'object' && WebAssembly.validate(bytes);
+  } catch {
+    return false;
+  }
+};
+
+export async function probeCapabilities(): Promise<BackendCapabilities> {
+  let webgpu = false;
+  let shaderF16 = false;
+
+  const gpu = (navigator as unknown as NavigatorWithGPU).gpu;
+  if (gpu) {
+    try {
+      const adapter = await gpu.requestAdapter();
+      webgpu = !!adapter;
+      shaderF16 = !!adapter?.features.has('shader-f16');
+    } catch {
+      webgpu = false;
+    }
+  }
+
+  const wasmSimd = validateWasm(WASM_SIMD_PROBE);
+  // Threads also need cross-origin isolation, otherwise SharedArrayBuffer is unavailable
+  const wasmThreads =
+    typeof SharedArrayBuffer !== 'undefined' &&
+    !!globalThis.crossOriginIsolated &&
+    validateWasm(WASM_THREADS_PROBE);
+
+  return { webgpu, shaderF16, wasmSimd, wasmThreads };
+}
+
+const describeWasm = (caps: BackendCapabilities): string => {
+  const features = [
+    caps.wasmSimd ? 'SIMD' : 'no SIMD',
+    caps.wasmThreads ? 'threads' : 'single-threaded',
+  ];
+  return features.join(', ');
+};
+
+export function rankBackends(
+  caps: BackendCapabilities,
+  supportedDtypes: BackendDtype[] = ['fp16', 'fp32', 'q8']
+): DetectionBackend[] {
+  const candidates: DetectionBackend[] = [];
+
+  if (caps.webgpu) {
+    if (caps.shaderF16) {
+      candidates.push({
+        id: 'webgpu-fp16',
+        device: 'webgpu',
+        dtype: 'fp16',
+        label: 'WebGPU · fp16',
+        reason: 'WebGPU adapter with shader-f16 support',
+      });
+    }
+    candidates.push({
+      id: 'webgpu-fp32',
+      device: 'webgpu',
+      dtype: 'fp32',
+      label: 'WebGPU · fp32',
+      reason: caps.shaderF16
+        ? 'WebGPU available, fp16 model could not be used'
+        : 'WebGPU adapter without shader-f16 support',
+    });
+  }
+
+  const gpuNote = caps.webgpu ? 'WebGPU unavailable for this model' : 'WebGPU not supported by this browser';
+
+  // Quantised weights only pay off when the int8 kernels can use SIMD
+  if (caps.wasmSimd) {
+    candidates.push({
+      id: 'wasm-q8',
+      device: 'wasm',
+      dtype: 'q8',
+      label: 'CPU (WASM) · q8',
+      reason: `${gpuNote}; WASM CPU fallback (${describeWasm(caps)})`,
+    });
+  }
+  candidates.push({
+    id: 'wasm-fp32',
+    device: 'wasm',
+    dtype: 'fp32',
+    label: 'CPU (WASM) · fp32',
+    reason: `${gpuNote}; WASM CPU fallback (${describeWasm(caps)})`,
+  });
+
+  return candidates.filter(candidate => supportedDtypes.includes(candidate.dtype));
+}
@@ -0,0 +1,57 @@
+// Learned empty-scene backgrounds, one per camera, kept in IndexedDB so each
+// new video from a camera starts from what earlier ones taught.
+
+import { requestToPromise, transactionDone } from '@/lib/idb';
+
+const DB_NAME = 'railway-monitor-background';
+const DB_VERSION = 1;
+const MODELS_STORE = 'models';
+
+// Mean greyscale image at model resolution, 0 to 1 per cell
+export interface BackgroundModel {
+  camera: string;
+  width: number;
+  height: number;
+  mean: Float32Array;
+  // Frames the model has learned from
+  frames: number;
+  updatedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(MODELS_STORE)) {
+        db.createObjectStore(MODELS_STORE, { keyPath: 'camera' });
+      }
+    };
+    dbPromise = requestToPromise(request);
+  }
+  return dbPromise;
+}
+
+export async function loadBackground(camera: string): Promise<BackgroundModel | null> {
+  const db = await openDatabase();
+  const model = await requestToPromise(
+    db.transaction(MODELS_STORE).objectStore(MODELS_STORE).get(camera)
+  ) as BackgroundModel | undefined;
+  return model ?? null;
+}
+
+export async function saveBackground(model: BackgroundModel): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(MODELS_STORE, 'readwrite');
+  transaction.objectStore(MODELS_STORE).put(model);
+  await transactionDone(transaction);
+}
+
+export async function clearBackground(camera: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(MODELS_STORE, 'readwrite');
+  transaction.objectStore(MODELS_STORE).delete(camera);
+  await transactionDone(transaction);
+}
@@ -0,0 +1,109 @@
+// Turns raw detector output into operator-facing detections: danger level and
+// a short description per class.
+
+import { zoneOverlap, type DangerZone } from './dangerZone';
+import { isNear, measureDistance, type DepthCalibration, type DepthMap, type DepthSettings } from './depth';
+import type { DangerLevel, Detection, DetectionDistance, DetectionResult } from './types';
+
+const DESCRIPTIONS: Record<DetectionResult['type'], string[]> = {
+  person: ['Person detected on tracks', 'Human presence detected', 'Pedestrian in danger zone'],
+  animal: ['Animal on railway tracks', 'Wildlife detected', 'Animal obstruction'],
+  vehicle: ['Vehicle on tracks', 'Unauthorized vehicle', 'Emergency vehicle'],
+  obstacle: ['Unknown object detected', 'Potential obstruction', 'Foreign object'],
+  debris: ['Debris on tracks', 'Scattered objects', 'Track obstruction'],
+};
+
+export function describeDetectionType(type: string): string {
+  const typeDescriptions = DESCRIPTIONS[type as DetectionResult['type']] || DESCRIPTIONS.obstacle;
+  return typeDescriptions[Math.floor(Math.random() * typeDescriptions.length)];
+}
+
+const DANGER_LEVELS: DangerLevel[] = ['low', 'medium', 'high', 'critical'];
+
+// Objects mostly outside the danger zone, like people beside the rails, drop
+// one level, and those clear of it two, so nothing that stays off the track
+// or out of the rail corridor is ever reported above medium
+const ZONE_CLEAR = 0.05;
+const ZONE_PARTIAL = 0.25;
+
+// What is known about where the object is, beyond its class
+export interface DangerFactors {
+  // Share of the object inside the danger zone
+  zoneOverlap?: number | null;
+  // Closer than the depth stage's near distance
+  near?: boolean;
+}
+
+export function getDangerLevel(type: string, confidence: number, factors: DangerFactors = {}): DangerLevel {
+  const index = DANGER_LEVELS.indexOf(classDangerLevel(type, confidence));
+  const overlap = factors.zoneOverlap ?? null;
+
+  if (overlap !== null && overlap < ZONE_PARTIAL) {
+    return DANGER_LEVELS[Math.max(0, index - (overlap < ZONE_CLEAR ? 2 : 1))];
+  }
+  // Something close is more urgent, unless it is off to the side of the track
+  if (factors.near) {
+    return DANGER_LEVELS[Math.min(DANGER_LEVELS.length - 1, index + 1)];
+  }
+  return DANGER_LEVELS[index];
+}
+
+function classDangerLevel(type: string, confidence: number): DangerLevel {
+  if (confidence < 0.6) return 'low';
+
+  switch (type) {
+    case 'person':
+      return confidence > 0.8 ? 'critical' : 'high';
+    case 'vehicle':
+      return 'critical';
+    case 'animal':
+      return confidence > 0.75 ? 'high' : 'medium';
+    case 'debris':
+      return confidence > 0.7 ? 'medium' : 'low';
+    case 'obstacle':
+      return confidence > 0.8 ? 'high' : 'medium';
+    default:
+      return 'medium';
+  }
+}
+
+// The frame the result came from, for placing it against the camera's zone
+export interface FrameContext {
+  width: number;
+  height: number;
+  zone?: DangerZone | null;
+  depth?: { map: DepthMap; settings: DepthSettings; calibration: DepthCalibration } | null;
+}
+
+export function toDetection(
+  result: DetectionResult,
+  video: { id: string; name: string },
+  timeInVideo: number,
+  frame?: FrameContext
+): Detection {
+  const overlap = frame ? zoneOverlap(result, frame.zone, frame.width, frame.height) : null;
+  const depth = frame?.depth;
+  const distance: DetectionDistance | null = frame && depth
+    ? measureDistance(result, depth.map, frame.width, frame.height, depth.calibration)
+    : null;
+
+  return {
+    id: result.id,
+    type: result.type,
+    confidence: result.confidence,
+    location: `Video: ${video.name}`,
+    dangerLevel: getDangerLevel(result.type, result.confidence, {
+      zoneOverlap: overlap,
+      near: !!distance && !!depth && isNear(distance, depth.settings),
+    }),
+    timestamp: new Date(),
+    description: describeDetectionType(result.type),
+    timeInVideo,
+    videoId: video.id,
+    label: result.label,
+    bbox: result.bbox,
+    polygon: result.polygon,
+    zoneOverlap: overlap ?? undefined,
+    distance: distance ?? undefined,
+  };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_DANGER_ZONE, isZoneUsable, pointInPolygon, zoneOverlap, type DangerZone } from './dangerZone';
+
+const square = [
+  { x: 0, y: 0 },
+  { x: 10, y: 0 },
+  { x: 10, y: 10 },
+  { x: 0, y: 10 },
+];
+
+// The left half of the frame
+const leftHalf: DangerZone = {
+  enabled: true,
+  source: 'drawn',
+  points: [
+    { x: 0, y: 0 },
+    { x: 0.5, y: 0 },
+    { x: 0.5, y: 1 },
+    { x: 0, y: 1 },
+  ],
+};
+
+describe('pointInPolygon', () => {
+  it('tells inside from outside, whatever the winding', () => {
+    expect(pointInPolygon({ x: 5, y: 5 }, square)).toBe(true);
+    expect(pointInPolygon({ x: 15, y: 5 }, square)).toBe(false);
+    expect(pointInPolygon({ x: 5, y: 5 }, [...square].reverse())).toBe(true);
+  });
+
+  it('handles concave outlines', () => {
+    const notch = [
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 10 },
+      { x: 5, y: 5 },
+      { x: 0, y: 10 },
+    ];
+    expect(pointInPolygon({ x: 5, y: 8 }, notch)).toBe(false);
+    expect(pointInPolygon({ x: 5, y: 2 }, notch)).toBe(true);
+  });
+});
+
+describe('isZoneUsable', () => {
+  it('needs an enabled zone with at least three points', () => {
+    expect(isZoneUsable(leftHalf)).toBe(true);
+    expect(isZoneUsable(DEFAULT_DANGER_ZONE)).toBe(false);
+    expect(isZoneUsable({ ...leftHalf, points: leftHalf.points.slice(0, 2) })).toBe(false);
+    expect(isZoneUsable(null)).toBe(false);
+  });
+});
+
+describe('zoneOverlap', () => {
+  it('measures the share of the box inside the zone', () => {
+    const bbox = { x: 300, y: 100, width: 400, height: 200 };
+    expect(zoneOverlap({ bbox }, leftHalf, 1000, 500)).toBeCloseTo(0.5);
+    expect(zoneOverlap({ bbox: { ...bbox, x: 0 } }, leftHalf, 1000, 500)).toBe(1);
+    expect(zoneOverlap({ bbox: { ...bbox, x: 600 } }, leftHalf, 1000, 500)).toBe(0);
+  });
+
+  it('only counts the object itself when it has an outline', () => {
+    // The box straddles the zone edge, but the outline is its left quarter
+    const bbox = { x: 300, y: 100, width: 400, height: 200 };
+    const polygon = [
+      { x: 300, y: 100 },
+      { x: 400, y: 100 },
+      { x: 400, y: 300 },
+      { x: 300, y: 300 },
+    ];
+    expect(zoneOverlap({ bbox, polygon }, leftHalf, 1000, 500)).toBe(1);
+  });
+
+  it('is null without a usable zone or frame size', () => {
+    const bbox = { x: 0, y: 0, width: 10, height: 10 };
+    expect(zoneOverlap({ bbox }, { ...leftHalf, enabled: false }, 1000, 500)).toBeNull();
+    expect(zoneOverlap({ bbox }, leftHalf, 0, 0)).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+// The part of a camera's view where objects put the line at risk, usually the
+// track bed. Drawn per camera in frame-relative coordinates, so it survives a
+// change of resolution, and used to weigh detections by how much of the
+// object actually sits inside it.
+
+import type { DetectionResult } from './types';
+
+// Fractions of the frame width and height
+export interface ZonePoint {
+  x: number;
+  y: number;
+}
+
+// Drawn by hand, or found in every frame from the rails of a cab camera
+export type ZoneSource = 'drawn' | 'rails';
+
+export interface DangerZone {
+  enabled: boolean;
+  // Drawn when missing, as zones saved before rail detection were
+  source?: ZoneSource;
+  points: ZonePoint[];
+}
+
+export const ZONE_SOURCE_LABELS: Record<ZoneSource, string> = {
+  drawn: 'Drawn by hand',
+  rails: 'Detected rails (cab camera)',
+};
+
+// A track running from the bottom of the frame towards the horizon
+export const DEFAULT_DANGER_ZONE: DangerZone = {
+  enabled: false,
+  source: 'drawn',
+  points: [
+    { x: 0.3, y: 1 },
+    { x: 0.46, y: 0.45 },
+    { x: 0.54, y: 0.45 },
+    { x: 0.7, y: 1 },
+  ],
+};
+
+// Samples per side when measuring how much of an object is inside the zone
+const OVERLAP_GRID = 16;
+
+type Point = { x: number; y: number };
+
+// Even-odd rule, so any simple polygon works regardless of winding
+export function pointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// The zone to judge one frame by: the rail corridor found in it, or the drawn
+// zone when the zone is drawn or the rails were lost
+export function frameZone(zone: DangerZone, corridor: ZonePoint[] | null): DangerZone {
+  return zone.source === 'rails' && corridor ? { ...zone, points: corridor } : zone;
+}
+
+export const isZoneUsable = (zone: DangerZone | null | undefined): zone is DangerZone =>
+  !!zone && zone.enabled && zone.points.length >= 3;
+
+// Share of the object inside the zone, measured over its outline when the
+// model segments and over its box otherwise; null without a usable zone
+export function zoneOverlap(
+  result: Pick<DetectionResult, 'bbox' | 'polygon'>,
+  zone: DangerZone | null | undefined,
+  frameWidth: number,
+  frameHeight: number
+): number | null {
+  if (!isZoneUsable(zone) || !frameWidth || !frameHeight) return null;
+
+  const area = zone.points.map(point => ({ x: point.x * frameWidth, y: point.y * frameHeight }));
+  const outline = result.polygon && result.polygon.length >= 3 ? result.polygon : null;
+  const { x, y, width, height } = result.bbox;
+
+  let object = 0;
+  let inside = 0;
+  for (let row = 0; row < OVERLAP_GRID; row++) {
+    for (let col = 0; col < OVERLAP_GRID; col++) {
+      const sample = {
+        x: x + ((col + 0.5) / OVERLAP_GRID) * width,
+        y: y + ((row + 0.5) / OVERLAP_GRID) * height,
+      };
+      if (outline && !pointInPolygon(sample, outline)) continue;
+      object++;
+      if (pointInPolygon(sample, area)) inside++;
+    }
+  }
+
+  return object > 0 ? inside / object : 0;
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_DEPTH, formatDistance, isNear, measureDistance, type DepthMap } from './depth';
+
+// 10x10 map over a 100x100 frame; rows get nearer towards the bottom, as the
+// ground does in front of a camera (larger values are nearer)
+const map: DepthMap = {
+  width: 10,
+  height: 10,
+  data: Float32Array.from({ length: 100 }, (_, index) => Math.floor(index / 10) + 1),
+};
+
+const uncalibrated = { referenceDistance: null };
+
+describe('measureDistance', () => {
+  it('gives relative depth, 0 nearest and 1 farthest in the frame', () => {
+    const bottom = measureDistance({ bbox: { x: 0, y: 90, width: 100, height: 10 } }, map, 100, 100, uncalibrated);
+    const top = measureDistance({ bbox: { x: 0, y: 0, width: 100, height: 10 } }, map, 100, 100, uncalibrated);
+    expect(bottom).toEqual({ value: 0, calibrated: false });
+    expect(top).toEqual({ value: 1, calibrated: false });
+  });
+
+  it('scales from the reference point once the camera is calibrated', () => {
+    // Half as near as the bottom of the frame, so twice as far away
+    const distance = measureDistance(
+      { bbox: { x: 40, y: 40, width: 20, height: 10 } },
+      map,
+      100,
+      100,
+      { referenceDistance: 10 }
+    );
+    expect(distance).toEqual({ value: 20, calibrated: true });
+  });
+
+  it('judges a box by its nearer part', () => {
+    // Rows 3 to 6 of the map in equal shares; the 75th percentile is row 6
+    const distance = measureDistance({ bbox: { x: 0, y: 20, width: 100, height: 40 } }, map, 100, 100, { referenceDistance: 10 });
+    expect(distance?.value).toBeCloseTo((10 * 10) / 6);
+  });
+
+  it('only samples inside the outline of a segmented object', () => {
+    const polygon = [
+      { x: 0, y: 20 },
+      { x: 100, y: 20 },
+      { x: 100, y: 40 },
+      { x: 0, y: 40 },
+    ];
+    const distance = measureDistance(
+      { bbox: { x: 0, y: 20, width: 100, height: 40 }, polygon },
+      map,
+      100,
+      100,
+      { referenceDistance: 10 }
+    );
+    expect(distance?.value).toBeCloseTo((10 * 10) / 4);
+  });
+
+  it('gives nothing without a frame size or a map', () => {
+    const bbox = { x: 0, y: 0, width: 10, height: 10 };
+    expect(measureDistance({ bbox }, map, 0, 0, uncalibrated)).toBeNull();
+    expect(measureDistance({ bbox }, { width: 0, height: 0, data: new Float32Array(0) }, 100, 100, uncalibrated)).toBeNull();
+  });
+});
+
+describe('isNear', () => {
+  it('compares against metres or relative depth', () => {
+    expect(isNear({ value: 30, calibrated: true }, DEFAULT_DEPTH)).toBe(true);
+    expect(isNear({ value: 80, calibrated: true }, DEFAULT_DEPTH)).toBe(false);
+    expect(isNear({ value: 0.1, calibrated: false }, DEFAULT_DEPTH)).toBe(true);
+    expect(isNear({ value: 0.5, calibrated: false }, DEFAULT_DEPTH)).toBe(false);
+  });
+});
+
+describe('formatDistance', () => {
+  it('labels calibrated distances in metres and the rest as relative depth', () => {
+    expect(formatDistance({ value: 42.4, calibrated: true })).toBe('~42 m');
+    expect(formatDistance({ value: 0.456, calibrated: false })).toBe('depth 0.46');
+  });
+});
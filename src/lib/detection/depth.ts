@@ -0,0 +1,121 @@
+// Distance to detections from a monocular depth model. The model gives
+// relative inverse depth, so distances are either relative (0 nearest, 1
+// farthest in the frame) or, once a camera is calibrated with the distance to
+// the ground at the bottom of its frame, rough metres scaled from that point.
+
+import type { BackendDtype } from './backend';
+import { pointInPolygon } from './dangerZone';
+import type { DetectionDistance, DetectionResult } from './types';
+
+// Larger values are nearer, as the model predicts them
+export interface DepthMap {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+export interface DepthSettings {
+  enabled: boolean;
+  // Objects nearer than this are treated as more dangerous, in metres when
+  // the camera is calibrated and in relative depth otherwise
+  nearDistance: number;
+  nearDepth: number;
+}
+
+// Per camera, since it depends on how the camera is mounted
+export interface DepthCalibration {
+  // Metres from the camera to the ground at the bottom centre of the frame
+  referenceDistance: number | null;
+}
+
+export const DEPTH_MODEL = {
+  name: 'Depth Anything Small',
+  repo: 'Xenova/depth-anything-small-hf',
+  sizeBytes: 99 * 1024 * 1024,
+  dtypes: ['fp32', 'q8'] as BackendDtype[],
+};
+
+export const DEFAULT_DEPTH: DepthSettings = {
+  enabled: false,
+  nearDistance: 50,
+  nearDepth: 0.25,
+};
+
+export const DEFAULT_DEPTH_CALIBRATION: DepthCalibration = {
+  referenceDistance: null,
+};
+
+// Width the worker scales depth maps to before handing them back
+export const DEPTH_MAP_WIDTH = 256;
+
+// Patch the reference distance is measured at, in fractions of the frame
+const REFERENCE_PATCH = { x0: 0.4, x1: 0.6, y0: 0.9, y1: 1 };
+// Samples per side inside an object
+const SAMPLE_GRID = 12;
+
+const percentile = (values: number[], p: number): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+};
+
+const sampleAt = (map: DepthMap, fx: number, fy: number): number => {
+  const x = Math.min(map.width - 1, Math.max(0, Math.floor(fx * map.width)));
+  const y = Math.min(map.height - 1, Math.max(0, Math.floor(fy * map.height)));
+  return map.data[y * map.width + x];
+};
+
+function referenceDepth(map: DepthMap): number {
+  const values: number[] = [];
+  for (let row = 0; row < SAMPLE_GRID; row++) {
+    for (let col = 0; col < SAMPLE_GRID; col++) {
+      const fx = REFERENCE_PATCH.x0 + ((col + 0.5) / SAMPLE_GRID) * (REFERENCE_PATCH.x1 - REFERENCE_PATCH.x0);
+      const fy = REFERENCE_PATCH.y0 + ((row + 0.5) / SAMPLE_GRID) * (REFERENCE_PATCH.y1 - REFERENCE_PATCH.y0);
+      values.push(sampleAt(map, fx, fy));
+    }
+  }
+  return percentile(values, 0.5);
+}
+
+export function measureDistance(
+  result: Pick<DetectionResult, 'bbox' | 'polygon'>,
+  map: DepthMap,
+  frameWidth: number,
+  frameHeight: number,
+  calibration: DepthCalibration
+): DetectionDistance | null {
+  if (!frameWidth || !frameHeight || map.data.length === 0) return null;
+
+  const outline = result.polygon && result.polygon.length >= 3 ? result.polygon : null;
+  const { x, y, width, height } = result.bbox;
+  const values: number[] = [];
+  for (let row = 0; row < SAMPLE_GRID; row++) {
+    for (let col = 0; col < SAMPLE_GRID; col++) {
+      const point = { x: x + ((col + 0.5) / SAMPLE_GRID) * width, y: y + ((row + 0.5) / SAMPLE_GRID) * height };
+      if (outline && !pointInPolygon(point, outline)) continue;
+      values.push(sampleAt(map, point.x / frameWidth, point.y / frameHeight));
+    }
+  }
+  if (values.length === 0) return null;
+
+  // Boxes also cover whatever is behind the object, so its nearer part counts
+  const depth = percentile(values, 0.75);
+
+  const reference = referenceDepth(map);
+  if (calibration.referenceDistance && reference > 0 && depth > 0) {
+    return { value: (calibration.referenceDistance * reference) / depth, calibrated: true };
+  }
+
+  let min = Infinity;
+  let max = -Infinity;
+  map.data.forEach(value => {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  });
+  return { value: max > min ? 1 - (depth - min) / (max - min) : 0, calibrated: false };
+}
+
+export const isNear = (distance: DetectionDistance, settings: DepthSettings): boolean =>
+  distance.value < (distance.calibrated ? settings.nearDistance : settings.nearDepth);
+
+export const formatDistance = (distance: DetectionDistance): string =>
+  distance.calibrated ? `~${Math.round(distance.value)} m` : `depth ${distance.value.toFixed(2)}`;
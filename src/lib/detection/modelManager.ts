@@ -0,0 +1,267 @@
+// Shares one detection worker per model and task across every
+// useYOLOv8Detection consumer. Workers are reference-counted and disposed
+// with the last consumer.
+
+import type { BackendDtype, DetectionBackend } from './backend';
+import type { DepthMap } from './depth';
+import type {
+  DetectionFrame,
+  DetectionTask,
+  DetectionWorkerRequest,
+  DetectionWorkerResponse,
+  ModelStatus,
+} from './protocol';
+import type { Taxonomy } from './taxonomy';
+import type { TileRect } from './tiling';
+import type { DetectionResult } from './types';
+import type { EnhanceSettings } from '@/lib/video/enhance';
+
+// Give the worker a moment to release GPU buffers before it is terminated
+const DISPOSE_TIMEOUT = 2000;
+
+export interface ModelState {
+  status: ModelStatus;
+  backend: DetectionBackend | null;
+}
+
+export interface ModelHandle {
+  key: string;
+  getState: () => ModelState;
+  subscribe: (listener: (state: ModelState) => void) => () => void;
+  detect: (
+    frame: DetectionFrame,
+    taxonomy: Taxonomy,
+    scoreThreshold: number,
+    tiles: TileRect[],
+    prompts?: string[]
+  ) => Promise<DetectionResult[]>;
+  // Only for depth-estimation models
+  estimateDepth: (frame: DetectionFrame) => Promise<DepthMap>;
+  // Image processing that needs no model, run off the main thread
+  enhance: (frame: DetectionFrame, settings: EnhanceSettings) => Promise<ImageBitmap>;
+  retry: () => void;
+  release: () => void;
+}
+
+interface PendingRequest {
+  resolve: (result: DetectionResult[] | DepthMap | ImageBitmap) => void;
+  reject: (error: Error) => void;
+}
+
+interface SharedModel {
+  key: string;
+  repo: string;
+  dtypes: BackendDtype[];
+  task: DetectionTask;
+  refCount: number;
+  worker: Worker | null;
+  state: ModelState;
+  listeners: Set<(state: ModelState) => void>;
+  pending: Map<number, PendingRequest>;
+  nextRequestId: number;
+}
+
+const models = new Map<string, SharedModel>();
+
+export const modelKey = (repo: string, dtypes: BackendDtype[], task: DetectionTask = 'object-detection'): string =>
+  `${task}|${repo}|${dtypes.join(',')}`;
+
+function setState(model: SharedModel, update: Partial<ModelState>) {
+  model.state = { ...model.state, ...update };
+  model.listeners.forEach(listener => listener(model.state));
+}
+
+function rejectPending(model: SharedModel, reason: string) {
+  model.pending.forEach(request => request.reject(new Error(reason)));
+  model.pending.clear();
+}
+
+function startWorker(model: SharedModel) {
+  const worker = new Worker(
+    new URL('../../workers/detection.worker.ts', import.meta.url),
+    { type: 'module' }
+  );
+  model.worker = worker;
+  setState(model, { status: { state: 'idle' }, backend: null });
+
+  worker.onmessage = (event: MessageEvent<DetectionWorkerResponse>) => {
+    const message = event.data;
+
+    switch (message.type) {
+      case 'status':
+        if (message.status.state === 'failed') {
+          console.error('Failed to load YOLOv8 model:', message.status.error);
+        }
+        setState(model, { status: message.status });
+        break;
+      case 'ready':
+        setState(model, { backend: message.backend });
+        break;
+      case 'result':
+        model.pending.get(message.requestId)?.resolve(message.detections);
+        model.pending.delete(message.requestId);
+        break;
+      case 'depth-result':
+        model.pending.get(message.requestId)?.resolve(message.depth);
+        model.pending.delete(message.requestId);
+        break;
+      case 'enhanced':
+        model.pending.get(message.requestId)?.resolve(message.frame);
+        model.pending.delete(message.requestId);
+        break;
+      case 'detect-error':
+        model.pending.get(message.requestId)?.reject(new Error(message.message));
+        model.pending.delete(message.requestId);
+        break;
+    }
+  };
+
+  worker.onerror = (event) => {
+    console.error('YOLOv8 worker error:', event);
+    rejectPending(model, 'YOLOv8 worker crashed');
+    setState(model, { status: { state: 'failed', error: event.message || 'Worker crashed' } });
+  };
+
+  const init: DetectionWorkerRequest = { type: 'init', modelId: model.repo, dtypes: model.dtypes, task: model.task };
+  worker.postMessage(init);
+}
+
+function stopWorker(model: SharedModel) {
+  const worker = model.worker;
+  if (!worker) return;
+
+  model.worker = null;
+  rejectPending(model, 'YOLOv8 worker terminated');
+
+  // A late crash of the old worker must not mark its replacement as failed
+  worker.onerror = (event) => console.warn('Stopped YOLOv8 worker error:', event);
+  const timeout = setTimeout(() => worker.terminate(), DISPOSE_TIMEOUT);
+  worker.onmessage = (event: MessageEvent<DetectionWorkerResponse>) => {
+    if (event.data.type === 'disposed') {
+      clearTimeout(timeout);
+      worker.terminate();
+    }
+  };
+  const dispose: DetectionWorkerRequest = { type: 'dispose' };
+  worker.postMessage(dispose);
+}
+
+function detect(
+  model: SharedModel,
+  frame: DetectionFrame,
+  taxonomy: Taxonomy,
+  scoreThreshold: number,
+  tiles: TileRect[],
+  prompts: string[]
+): Promise<DetectionResult[]> {
+  const worker = model.worker;
+  if (!worker || model.state.status.state !== 'ready') {
+    if (!(frame instanceof OffscreenCanvas)) frame.close();
+    return Promise.reject(new Error('YOLOv8 model not loaded'));
+  }
+
+  const requestId = model.nextRequestId++;
+  return new Promise((resolve, reject) => {
+    model.pending.set(requestId, { resolve: result => resolve(result as DetectionResult[]), reject });
+    const request: DetectionWorkerRequest = {
+      type: 'detect',
+      requestId,
+      frame,
+      taxonomy,
+      scoreThreshold,
+      tiles,
+      prompts,
+    };
+    worker.postMessage(request, [frame]);
+  });
+}
+
+function estimateDepth(model: SharedModel, frame: DetectionFrame): Promise<DepthMap> {
+  const worker = model.worker;
+  if (!worker || model.state.status.state !== 'ready') {
+    if (!(frame instanceof OffscreenCanvas)) frame.close();
+    return Promise.reject(new Error('Depth model not loaded'));
+  }
+
+  const requestId = model.nextRequestId++;
+  return new Promise((resolve, reject) => {
+    model.pending.set(requestId, { resolve: result => resolve(result as DepthMap), reject });
+    const request: DetectionWorkerRequest = { type: 'depth', requestId, frame };
+    worker.postMessage(request, [frame]);
+  });
+}
+
+function enhance(model: SharedModel, frame: DetectionFrame, settings: EnhanceSettings): Promise<ImageBitmap> {
+  const worker = model.worker;
+  if (!worker) {
+    if (!(frame instanceof OffscreenCanvas)) frame.close();
+    return Promise.reject(new Error('Detection worker not running'));
+  }
+
+  const requestId = model.nextRequestId++;
+  return new Promise((resolve, reject) => {
+    model.pending.set(requestId, { resolve: result => resolve(result as ImageBitmap), reject });
+    const request: DetectionWorkerRequest = { type: 'enhance', requestId, frame, settings };
+    worker.postMessage(request, [frame]);
+  });
+}
+
+export function acquireModel(
+  repo: string,
+  dtypes: BackendDtype[],
+  task: DetectionTask = 'object-detection'
+): ModelHandle {
+  const key = modelKey(repo, dtypes, task);
+  let model = models.get(key);
+
+  if (!model) {
+    model = {
+      key,
+      repo,
+      dtypes,
+      task,
+      refCount: 0,
+      worker: null,
+      state: { status: { state: 'idle' }, backend: null },
+      listeners: new Set(),
+      pending: new Map(),
+      nextRequestId: 0,
+    };
+    models.set(key, model);
+    startWorker(model);
+  }
+
+  const shared = model;
+  shared.refCount++;
+  let released = false;
+
+  return {
+    key,
+    getState: () => shared.state,
+    subscribe: (listener) => {
+      shared.listeners.add(listener);
+      return () => {
+        shared.listeners.delete(listener);
+      };
+    },
+    detect: (frame, taxonomy, scoreThreshold, tiles, prompts = []) =>
+      detect(shared, frame, taxonomy, scoreThreshold, tiles, prompts),
+    estimateDepth: (frame) => estimateDepth(shared, frame),
+    enhance: (frame, settings) => enhance(shared, frame, settings),
+    retry: () => {
+      stopWorker(shared);
+      startWorker(shared);
+    },
+    release: () => {
+      if (released) return;
+      released = true;
+
+      shared.refCount--;
+      if (shared.refCount === 0) {
+        models.delete(key);
+        stopWorker(shared);
+        shared.listeners.clear();
+      }
+    },
+  };
+}
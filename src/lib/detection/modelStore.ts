@@ -0,0 +1,145 @@
+// IndexedDB storage for model files and imported custom models.
+// The detection worker plugs `createModelCache()` into transformers.js, so hub
+// downloads are kept here for offline use and custom models are served from here.
+
+import { requestToPromise, transactionDone } from '@/lib/idb';
+import type { ModelInfo } from './models';
+
+const DB_NAME = 'railway-monitor-models';
+const DB_VERSION = 1;
+const FILES_STORE = 'files';
+const MODELS_STORE = 'custom-models';
+
+interface StoredFile {
+  key: string;
+  repo: string;
+  size: number;
+  contentType: string;
+  data: ArrayBuffer;
+}
+
+// transformers.js looks files up by remote URL or by local path; both reduce to `<repo>/<file>`
+const REMOTE_KEY = /^https?:\/\/[^/]+\/([^/]+\/[^/]+)\/resolve\/[^/]+\/(.+)$/;
+const LOCAL_KEY = /^\/?models\/([^/]+\/[^/]+)\/(.+)$/;
+
+const parseKey = (key: string): { repo: string; file: string } | null => {
+  const match = key.match(REMOTE_KEY) ?? key.match(LOCAL_KEY);
+  return match ? { repo: match[1], file: match[2] } : null;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(FILES_STORE)) {
+        const files = db.createObjectStore(FILES_STORE, { keyPath: 'key' });
+        files.createIndex('repo', 'repo');
+      }
+      if (!db.objectStoreNames.contains(MODELS_STORE)) {
+        db.createObjectStore(MODELS_STORE, { keyPath: 'id' });
+      }
+    };
+    dbPromise = requestToPromise(request);
+  }
+  return dbPromise;
+}
+
+async function readFile(key: string): Promise<StoredFile | undefined> {
+  const db = await openDatabase();
+  const store = db.transaction(FILES_STORE, 'readonly').objectStore(FILES_STORE);
+  return requestToPromise(store.get(key) as IDBRequest<StoredFile | undefined>);
+}
+
+async function writeFiles(files: StoredFile[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(FILES_STORE, 'readwrite');
+  const store = transaction.objectStore(FILES_STORE);
+  files.forEach(file => store.put(file));
+  await transactionDone(transaction);
+}
+
+const toStoredFile = (repo: string, file: string, data: ArrayBuffer, contentType: string): StoredFile => ({
+  key: `${repo}/${file}`,
+  repo,
+  size: data.byteLength,
+  contentType,
+  data,
+});
+
+export function createModelCache() {
+  return {
+    async match(key: string): Promise<Response | undefined> {
+      const parsed = parseKey(key);
+      if (!parsed) return undefined;
+
+      const stored = await readFile(`${parsed.repo}/${parsed.file}`);
+      if (!stored) return undefined;
+
+      return new Response(stored.data, {
+        headers: {
+          'Content-Type': stored.contentType,
+          'Content-Length': String(stored.size),
+        },
+      });
+    },
+
+    async put(key: string, response: Response): Promise<void> {
+      const parsed = parseKey(key);
+      if (!parsed) return;
+
+      const data = await response.arrayBuffer();
+      const contentType = response.headers.get('Content-Type') ?? 'application/octet-stream';
+      await writeFiles([toStoredFile(parsed.repo, parsed.file, data, contentType)]);
+    },
+  };
+}
+
+export async function getCachedSize(repo: string): Promise<number> {
+  const db = await openDatabase();
+  const index = db.transaction(FILES_STORE, 'readonly').objectStore(FILES_STORE).index('repo');
+  const files = await requestToPromise(index.getAll(repo) as IDBRequest<StoredFile[]>);
+  return files.reduce((total, file) => total + file.size, 0);
+}
+
+export async function listCustomModels(): Promise<ModelInfo[]> {
+  const db = await openDatabase();
+  const store = db.transaction(MODELS_STORE, 'readonly').objectStore(MODELS_STORE);
+  return requestToPromise(store.getAll() as IDBRequest<ModelInfo[]>);
+}
+
+export async function saveCustomModel(
+  info: ModelInfo,
+  files: Record<string, { data: ArrayBuffer; contentType: string }>
+): Promise<void> {
+  await writeFiles(
+    Object.entries(files).map(([file, { data, contentType }]) =>
+      toStoredFile(info.repo, file, data, contentType)
+    )
+  );
+
+  const db = await openDatabase();
+  const transaction = db.transaction(MODELS_STORE, 'readwrite');
+  transaction.objectStore(MODELS_STORE).put(info);
+  await transactionDone(transaction);
+}
+
+export async function deleteModelFiles(repo: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(FILES_STORE, 'readwrite');
+  const index = transaction.objectStore(FILES_STORE).index('repo');
+  const keys = await requestToPromise(index.getAllKeys(repo));
+  keys.forEach(key => transaction.objectStore(FILES_STORE).delete(key));
+  await transactionDone(transaction);
+}
+
+export async function deleteCustomModel(info: ModelInfo): Promise<void> {
+  await deleteModelFiles(info.repo);
+
+  const db = await openDatabase();
+  const transaction = db.transaction(MODELS_STORE, 'readwrite');
+  transaction.objectStore(MODELS_STORE).delete(info.id);
+  await transactionDone(transaction);
+}
@@ -0,0 +1,137 @@
+// Registry of detection models: the published YOLOv8 variants plus custom
+// ONNX models imported from disk (see modelStore.ts for where they live).
+
+import type { BackendDtype } from './backend';
+import type { DetectionTask } from './protocol';
+import { COCO_LABELS } from './taxonomy';
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  source: 'hub' | 'custom';
+  // Id handed to transformers.js pipeline()
+  repo: string;
+  // Approximate fp32 weight size for hub models, exact file size for custom ones
+  sizeBytes: number;
+  classes: string[];
+  inputResolution: number;
+  dtypes: BackendDtype[];
+  // Object detection unless set; YOLOv8-seg models also outline each object
+  task?: DetectionTask;
+}
+
+export const DEFAULT_MODEL_ID = 'yolov8n';
+export const CUSTOM_MODEL_NAMESPACE = 'custom-models';
+
+export const BUILTIN_MODELS: ModelInfo[] = [
+  {
+    id: 'yolov8n',
+    name: 'YOLOv8 Nano',
+    source: 'hub',
+    repo: 'Xenova/yolov8n',
+    sizeBytes: 12.8 * 1024 * 1024,
+    classes: COCO_LABELS,
+    inputResolution: 640,
+    dtypes: ['fp16', 'fp32', 'q8'],
+  },
+  {
+    id: 'yolov8s',
+    name: 'YOLOv8 Small',
+    source: 'hub',
+    repo: 'Xenova/yolov8s',
+    sizeBytes: 44.7 * 1024 * 1024,
+    classes: COCO_LABELS,
+    inputResolution: 640,
+    dtypes: ['fp16', 'fp32', 'q8'],
+  },
+  {
+    id: 'yolov8m',
+    name: 'YOLOv8 Medium',
+    source: 'hub',
+    repo: 'Xenova/yolov8m',
+    sizeBytes: 103.7 * 1024 * 1024,
+    classes: COCO_LABELS,
+    inputResolution: 640,
+    dtypes: ['fp16', 'fp32', 'q8'],
+  },
+];
+
+// Accepts one label per line, a JSON array, or a JSON id2label object
+export function parseLabelFile(text: string): string[] {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const parsed: unknown = JSON.parse(trimmed);
+    if (Array.isArray(parsed)) {
+      return parsed.map(label => String(label).trim()).filter(Boolean);
+    }
+    if (parsed && typeof parsed === 'object') {
+      return Object.entries(parsed as Record<string, unknown>)
+        .sort(([a], [b]) => Number(a) - Number(b))
+        .map(([, label]) => String(label).trim())
+        .filter(Boolean);
+    }
+    throw new Error('Label file must be a JSON array or id2label object');
+  }
+
+  return trimmed.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+}
+
+// transformers.js needs a config and preprocessor config next to the weights.
+// Imported models are Ultralytics YOLOv8 exports whose raw outputs the worker
+// decodes itself, so their model type is deliberately unknown to transformers.js.
+export function buildCustomModelConfigs(
+  classes: string[],
+  inputResolution: number,
+  task: DetectionTask = 'object-detection'
+) {
+  const id2label = Object.fromEntries(classes.map((label, index) => [String(index), label]));
+  const label2id = Object.fromEntries(classes.map((label, index) => [label, index]));
+
+  const config = {
+    model_type: task === 'instance-segmentation' ? 'yolov8-seg' : 'yolov8',
+    id2label,
+    label2id,
+  };
+
+  const preprocessorConfig = {
+    image_processor_type: 'YolosImageProcessor',
+    do_resize: true,
+    size: { width: inputResolution, height: inputResolution },
+    do_rescale: true,
+    rescale_factor: 1 / 255,
+    do_normalize: false,
+    do_pad: false,
+  };
+
+  return { config, preprocessorConfig };
+}
+
+export const createCustomModelInfo = (
+  name: string,
+  sizeBytes: number,
+  classes: string[],
+  inputResolution: number,
+  task: DetectionTask = 'object-detection'
+): ModelInfo => {
+  const id = `custom-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  return {
+    id,
+    name,
+    source: 'custom',
+    repo: `${CUSTOM_MODEL_NAMESPACE}/${id}`,
+    sizeBytes,
+    classes,
+    inputResolution,
+    // A single exported graph, so no fp16/quantised variants to pick from
+    dtypes: ['fp32'],
+    task,
+  };
+};
+
+// Decoded by the worker rather than a transformers.js pipeline
+export const isCustomModelRepo = (repo: string): boolean => repo.startsWith(`${CUSTOM_MODEL_NAMESPACE}/`);
+
+export const formatModelSize = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
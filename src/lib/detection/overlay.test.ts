@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { containTransform, detectionsAtTime, formatTimestamp } from './overlay';
+import type { Detection } from './types';
+
+const detection = (id: string, timeInVideo: number | undefined, withBox = true): Detection => ({
+  id,
+  type: 'person',
+  confidence: 0.9,
+  location: 'Track',
+  dangerLevel: 'high',
+  timestamp: new Date(0),
+  description: 'person',
+  timeInVideo,
+  bbox: withBox ? { x: 0, y: 0, width: 10, height: 10 } : undefined,
+});
+
+describe('containTransform', () => {
+  it('letterboxes a wide frame in a taller box', () => {
+    expect(containTransform(1920, 1080, 960, 720)).toEqual({ scale: 0.5, offsetX: 0, offsetY: 90 });
+  });
+
+  it('pillarboxes a tall frame in a wider box', () => {
+    expect(containTransform(1080, 1920, 1280, 960)).toEqual({ scale: 0.5, offsetX: 370, offsetY: 0 });
+  });
+
+  it('is the identity until the frame size is known', () => {
+    expect(containTransform(0, 0, 640, 480)).toEqual({ scale: 1, offsetX: 0, offsetY: 0 });
+  });
+});
+
+describe('detectionsAtTime', () => {
+  const detections = [
+    detection('a', 1),
+    detection('b', 2),
+    detection('c', 2),
+    detection('no-box', 2, false),
+    detection('untimed', undefined),
+  ];
+
+  it('shows the latest sample at or before the time', () => {
+    expect(detectionsAtTime(detections, 2.5, 1).map(d => d.id)).toEqual(['b', 'c']);
+    expect(detectionsAtTime(detections, 1.5, 1).map(d => d.id)).toEqual(['a']);
+  });
+
+  it('tolerates playback landing just before the sample', () => {
+    expect(detectionsAtTime(detections, 1.9995, 1).map(d => d.id)).toEqual(['b', 'c']);
+  });
+
+  it('shows nothing once the sample is older than the window, or before the first one', () => {
+    expect(detectionsAtTime(detections, 3.5, 1)).toEqual([]);
+    expect(detectionsAtTime(detections, 0.5, 1)).toEqual([]);
+  });
+});
+
+describe('formatTimestamp', () => {
+  it('formats hours, minutes, seconds and milliseconds', () => {
+    expect(formatTimestamp(0)).toBe('00:00:00.000');
+    expect(formatTimestamp(3723.045)).toBe('01:02:03.045');
+  });
+
+  it('carries rounding into the next second and minute', () => {
+    expect(formatTimestamp(59.9996)).toBe('00:01:00.000');
+    expect(formatTimestamp(3599.9999)).toBe('01:00:00.000');
+  });
+});
@@ -0,0 +1,186 @@
+// Draws detection boxes over a video frame. Shared by the on-screen overlay
+// and anything that burns boxes into exported frames.
+
+import type { ZonePoint } from './dangerZone';
+import { formatDistance } from './depth';
+import type { DangerLevel, Detection, DetectionResult } from './types';
+
+export const CLASS_COLORS: Record<DetectionResult['type'], string> = {
+  person: '#ef4444',
+  animal: '#f59e0b',
+  vehicle: '#8b5cf6',
+  obstacle: '#f97316',
+  debris: '#eab308',
+};
+
+export const DANGER_COLORS: Record<DangerLevel, string> = {
+  low: '#64748b',
+  medium: '#eab308',
+  high: '#f97316',
+  critical: '#dc2626',
+};
+
+// Maps source pixels to the drawing surface
+export interface FrameTransform {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+// Where an object-contain frame lands inside its box, letterboxing included
+export function containTransform(
+  frameWidth: number,
+  frameHeight: number,
+  boxWidth: number,
+  boxHeight: number
+): FrameTransform {
+  if (!frameWidth || !frameHeight) return { scale: 1, offsetX: 0, offsetY: 0 };
+
+  const scale = Math.min(boxWidth / frameWidth, boxHeight / frameHeight);
+  return {
+    scale,
+    offsetX: (boxWidth - frameWidth * scale) / 2,
+    offsetY: (boxHeight - frameHeight * scale) / 2,
+  };
+}
+
+// Detections from the latest sample at or before `time`, if it is recent enough
+export function detectionsAtTime(detections: Detection[], time: number, window: number): Detection[] {
+  let sampleTime = -Infinity;
+  detections.forEach(detection => {
+    const at = detection.timeInVideo ?? -Infinity;
+    if (at <= time + 1e-3 && at > sampleTime) sampleTime = at;
+  });
+
+  if (time - sampleTime > window) return [];
+  return detections.filter(detection => detection.timeInVideo === sampleTime && detection.bbox);
+}
+
+export function drawDetections(
+  ctx: CanvasRenderingContext2D,
+  detections: Detection[],
+  { scale, offsetX, offsetY }: FrameTransform
+): void {
+  const fontSize = Math.max(11, Math.round(12 * Math.min(2, Math.max(1, scale))));
+  ctx.font = `600 ${fontSize}px ui-sans-serif, system-ui, sans-serif`;
+  ctx.textBaseline = 'top';
+
+  detections.forEach(detection => {
+    if (!detection.bbox) return;
+
+    const x = offsetX + detection.bbox.x * scale;
+    const y = offsetY + detection.bbox.y * scale;
+    const width = detection.bbox.width * scale;
+    const height = detection.bbox.height * scale;
+    const color = CLASS_COLORS[detection.type];
+
+    // Segmentation outlines are filled so the object itself stands out from its box
+    if (detection.polygon && detection.polygon.length >= 3) {
+      ctx.beginPath();
+      detection.polygon.forEach((point, index) => {
+        const px = offsetX + point.x * scale;
+        const py = offsetY + point.y * scale;
+        if (index === 0) ctx.moveTo(px, py);
+        else ctx.lineTo(px, py);
+      });
+      ctx.closePath();
+      ctx.globalAlpha = 0.35;
+      ctx.fillStyle = color;
+      ctx.fill();
+      ctx.globalAlpha = 1;
+    }
+
+    ctx.lineWidth = detection.dangerLevel === 'critical' ? 3 : 2;
+    ctx.strokeStyle = color;
+    ctx.strokeRect(x, y, width, height);
+
+    // Label above the box, or inside it when the box touches the top edge
+    const distance = detection.distance ? ` · ${formatDistance(detection.distance)}` : '';
+    const label = `${detection.label ?? detection.type} ${Math.round(detection.confidence * 100)}%${distance}`;
+    const danger = detection.dangerLevel.toUpperCase();
+    const padding = 3;
+    const labelWidth = ctx.measureText(label).width + padding * 2;
+    const dangerWidth = ctx.measureText(danger).width + padding * 2;
+    const labelHeight = fontSize + padding * 2;
+    const labelY = y - labelHeight >= 0 ? y - labelHeight : y;
+
+    ctx.fillStyle = color;
+    ctx.fillRect(x, labelY, labelWidth, labelHeight);
+    ctx.fillStyle = DANGER_COLORS[detection.dangerLevel];
+    ctx.fillRect(x + labelWidth, labelY, dangerWidth, labelHeight);
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(label, x + padding, labelY + padding);
+    ctx.fillText(danger, x + labelWidth + padding, labelY + padding);
+  });
+}
+
+// Outline of a danger zone given in fractions of the frame; dashed while it is being drawn
+export function drawDangerZone(
+  ctx: CanvasRenderingContext2D,
+  points: ZonePoint[],
+  frameWidth: number,
+  frameHeight: number,
+  { scale, offsetX, offsetY }: FrameTransform,
+  editing = false
+): void {
+  if (points.length === 0) return;
+
+  const toCanvas = (point: ZonePoint) => ({
+    x: offsetX + point.x * frameWidth * scale,
+    y: offsetY + point.y * frameHeight * scale,
+  });
+
+  ctx.save();
+  ctx.beginPath();
+  points.map(toCanvas).forEach(({ x, y }, index) => {
+    if (index === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  });
+  if (!editing) ctx.closePath();
+  ctx.lineWidth = 2;
+  ctx.strokeStyle = DANGER_COLORS.critical;
+  ctx.setLineDash(editing ? [6, 4] : []);
+  ctx.stroke();
+  if (!editing && points.length >= 3) {
+    ctx.fillStyle = 'rgba(220, 38, 38, 0.12)';
+    ctx.fill();
+  }
+
+  if (editing) {
+    ctx.fillStyle = DANGER_COLORS.critical;
+    points.map(toCanvas).forEach(({ x, y }) => {
+      ctx.beginPath();
+      ctx.arc(x, y, 4, 0, Math.PI * 2);
+      ctx.fill();
+    });
+  }
+  ctx.restore();
+}
+
+// hh:mm:ss.mmm, split from whole milliseconds so 59.9996s reads 00:01:00.000
+export const formatTimestamp = (seconds: number): string => {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const mins = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, width = 2) => value.toString().padStart(width, '0');
+  return `${pad(hours)}:${pad(mins)}:${pad(secs)}.${pad(ms, 3)}`;
+};
+
+// Source name and video time in the bottom-left corner of an exported frame
+export function drawWatermark(ctx: CanvasRenderingContext2D, title: string, time: number, height: number): void {
+  const fontSize = Math.max(12, Math.round(height / 40));
+  const padding = Math.round(fontSize / 2);
+  const text = `${title} • ${formatTimestamp(time)}`;
+
+  ctx.font = `600 ${fontSize}px ui-monospace, monospace`;
+  ctx.textBaseline = 'bottom';
+  const width = ctx.measureText(text).width + padding * 2;
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect(padding, height - padding - fontSize - padding * 2, width, fontSize + padding * 2);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillText(text, padding * 2, height - padding * 2);
+}
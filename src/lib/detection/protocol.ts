@@ -0,0 +1,59 @@
+// Message protocol between the model manager and the detection worker.
+// Frames are transferred, not copied, so the sender must not reuse them.
+
+import type { BackendDtype, DetectionBackend } from './backend';
+import type { DepthMap } from './depth';
+import type { Taxonomy } from './taxonomy';
+import type { TileRect } from './tiling';
+import type { DetectionResult } from './types';
+import type { EnhanceSettings } from '@/lib/video/enhance';
+
+export type DetectionFrame = ImageBitmap | OffscreenCanvas | VideoFrame;
+
+// VideoFrame is undefined in browsers without WebCodecs, so check before instanceof
+export const isVideoFrame = (frame: unknown): frame is VideoFrame =>
+  typeof VideoFrame !== 'undefined' && frame instanceof VideoFrame;
+
+// Closed-set detectors like YOLO, YOLOv8-seg models that also outline each
+// object, open-vocabulary detectors driven by text prompts, or a depth model
+export type DetectionTask =
+  | 'object-detection'
+  | 'instance-segmentation'
+  | 'zero-shot-object-detection'
+  | 'depth-estimation';
+
+// Model lifecycle as reported to the UI while the worker loads the pipeline
+export type ModelStatus =
+  | { state: 'idle' }
+  | { state: 'downloading'; progress: number }
+  | { state: 'compiling' }
+  | { state: 'ready' }
+  | { state: 'failed'; error: string };
+
+export type DetectionWorkerRequest =
+  | { type: 'init'; modelId: string; dtypes: BackendDtype[]; task: DetectionTask }
+  | {
+      type: 'detect';
+      requestId: number;
+      frame: DetectionFrame;
+      taxonomy: Taxonomy;
+      // Minimum score the pipeline keeps; per-class thresholds are applied by the hook
+      scoreThreshold: number;
+      // Extra crops to run in addition to the full frame; empty for a single pass
+      tiles: TileRect[];
+      // What a zero-shot model looks for; ignored by closed-set models
+      prompts: string[];
+    }
+  | { type: 'depth'; requestId: number; frame: DetectionFrame }
+  // Low-light and weather clean-up, answered with the processed frame
+  | { type: 'enhance'; requestId: number; frame: DetectionFrame; settings: EnhanceSettings }
+  | { type: 'dispose' };
+
+export type DetectionWorkerResponse =
+  | { type: 'status'; status: ModelStatus }
+  | { type: 'ready'; backend: DetectionBackend }
+  | { type: 'result'; requestId: number; detections: DetectionResult[] }
+  | { type: 'depth-result'; requestId: number; depth: DepthMap }
+  | { type: 'enhanced'; requestId: number; frame: ImageBitmap }
+  | { type: 'detect-error'; requestId: number; message: string }
+  | { type: 'disposed' };
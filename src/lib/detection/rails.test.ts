@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { corridorAtTime, createRailTracker, detectRailCorridor } from './rails';
+
+// A scene as greyscale per working pixel (320 wide), 0 to 1
+type Scene = (x: number, y: number) => number;
+
+// Just enough OffscreenCanvas for the detector: drawing a scene stores it and
+// reading pixels renders it at the canvas size
+class FakeCanvas {
+  private scene: Scene = () => 0;
+  constructor(public width: number, public height: number) {}
+  getContext() {
+    return {
+      drawImage: (image: Scene) => {
+        this.scene = image;
+      },
+      getImageData: (x: number, y: number, width: number, height: number) => {
+        const data = new Uint8ClampedArray(width * height * 4);
+        for (let row = 0; row < height; row++) {
+          for (let col = 0; col < width; col++) {
+            const value = Math.round(this.scene(col, row) * 255);
+            data.set([value, value, value, 255], (row * width + col) * 4);
+          }
+        }
+        return { data, width, height };
+      },
+    };
+  }
+}
+
+beforeEach(() => vi.stubGlobal('OffscreenCanvas', FakeCanvas));
+afterEach(() => vi.unstubAllGlobals());
+
+// 1280x720 frames are worked on at 320x180
+const WIDTH = 1280;
+const HEIGHT = 720;
+
+// Two bright rails on dark ballast, from x = 100 and 220 at the bottom to a
+// vanishing point at (160, 40)
+const track: Scene = (x, y) => {
+  if (y < 40) return 0.2;
+  const along = (180 - y) / 140;
+  const onRail = (bottom: number) => Math.abs(x - (bottom + (160 - bottom) * along)) < 1.5;
+  return onRail(100) || onRail(220) ? 0.9 : 0.2;
+};
+const ballast: Scene = () => 0.2;
+
+const detect = (scene: Scene) => detectRailCorridor(scene as unknown as CanvasImageSource, WIDTH, HEIGHT);
+
+describe('detectRailCorridor', () => {
+  it('finds the rails and meets them at the vanishing point', () => {
+    const corridor = detect(track);
+    expect(corridor).not.toBeNull();
+    expect(corridor!.vanishingPoint.x).toBeCloseTo(0.5, 1);
+    expect(corridor!.vanishingPoint.y).toBeCloseTo(40 / 180, 1);
+  });
+
+  it('widens the rails by half the gauge either side', () => {
+    const [bottomLeft, topLeft, topRight, bottomRight] = detect(track)!.points;
+    // Rails 120 pixels apart at the bottom, so 60 pixels of clearance
+    expect(bottomLeft.x * 320).toBeCloseTo(40, -1);
+    expect(bottomRight.x * 320).toBeCloseTo(280, -1);
+    expect(bottomLeft.y).toBe(1);
+    expect(bottomRight.y).toBe(1);
+    // Narrowing towards the vanishing point, and stopping short of it
+    expect(topLeft.x).toBeGreaterThan(bottomLeft.x);
+    expect(topRight.x).toBeLessThan(bottomRight.x);
+    expect(topLeft.y).toBeGreaterThan(40 / 180);
+  });
+
+  it('finds nothing without rails or a frame size', () => {
+    expect(detect(ballast)).toBeNull();
+    expect(detectRailCorridor(track as unknown as CanvasImageSource, 0, 0)).toBeNull();
+  });
+});
+
+describe('createRailTracker', () => {
+  const update = (tracker: ReturnType<typeof createRailTracker>, scene: Scene) =>
+    tracker.update(scene as unknown as CanvasImageSource, WIDTH, HEIGHT);
+
+  it('keeps the corridor through a few missed frames before losing it', () => {
+    const tracker = createRailTracker();
+    const found = update(tracker, track);
+    for (let miss = 0; miss < 5; miss++) expect(update(tracker, ballast)).toEqual(found);
+    expect(update(tracker, ballast)).toBeNull();
+  });
+
+  it('forgets the corridor on reset', () => {
+    const tracker = createRailTracker();
+    update(tracker, track);
+    tracker.reset();
+    expect(update(tracker, ballast)).toBeNull();
+  });
+});
+
+describe('corridorAtTime', () => {
+  it('takes the latest corridor at or before the time', () => {
+    const early = [{ x: 0, y: 0 }];
+    const late = [{ x: 1, y: 1 }];
+    const corridors = [
+      { time: 4, points: late },
+      { time: 1, points: early },
+    ];
+    expect(corridorAtTime(corridors, 0.5)).toBeNull();
+    expect(corridorAtTime(corridors, 2)).toBe(early);
+    expect(corridorAtTime(corridors, 4)).toBe(late);
+  });
+});
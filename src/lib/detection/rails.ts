@@ -0,0 +1,256 @@
+// Finds the ego track in forward-facing cab footage and turns it into a danger
+// corridor. Edges from the lower part of the frame vote in a Hough transform;
+// the strongest pair of lines leaning towards each other from either side of
+// the centre, meeting at a plausible vanishing point, is taken as the rails.
+// The corridor widens them by the clearance trains need either side.
+
+import type { ZonePoint } from './dangerZone';
+
+export interface RailCorridor {
+  // Frame-relative polygon, bottom left first
+  points: ZonePoint[];
+  // Where the rails meet, frame-relative
+  vanishingPoint: ZonePoint;
+}
+
+const WORK_WIDTH = 320;
+// Rails only stand out clearly below the horizon
+const ROI_TOP = 0.4;
+// Share of edge pixels that vote, from the strongest down
+const EDGE_SHARE = 0.08;
+const MIN_EDGE = 0.25;
+// Line normals searched, in degrees either side of horizontal (vertical lines)
+const MAX_ANGLE = 75;
+// Votes only go to angles near the edge's own gradient direction
+const ANGLE_SPREAD = 12;
+const PEAKS = 12;
+// Clearance either side of the rails, as a share of the track gauge on screen
+const CLEARANCE = 0.5;
+// Where the corridor stops, as a share of the way from the vanishing point to the bottom
+const CORRIDOR_TOP = 0.15;
+// Sampled frames a corridor is kept for when the rails are briefly lost
+const MAX_MISSES = 5;
+const SMOOTHING = 0.5;
+
+interface HoughLine {
+  theta: number;
+  rho: number;
+  votes: number;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// x at height y for the line x·cosθ + y·sinθ = ρ
+const xAt = (line: HoughLine, y: number) => (line.rho - y * Math.sin(line.theta)) / Math.cos(line.theta);
+
+function edgeMap(luma: Float32Array, width: number, height: number, top: number) {
+  const magnitude = new Float32Array(width * height);
+  const angle = new Float32Array(width * height);
+
+  for (let y = Math.max(1, top); y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const at = (dx: number, dy: number) => luma[(y + dy) * width + x + dx];
+      const gx = at(1, -1) + 2 * at(1, 0) + at(1, 1) - at(-1, -1) - 2 * at(-1, 0) - at(-1, 1);
+      const gy = at(-1, 1) + 2 * at(0, 1) + at(1, 1) - at(-1, -1) - 2 * at(0, -1) - at(1, -1);
+      const index = y * width + x;
+      magnitude[index] = Math.hypot(gx, gy);
+      // Gradient direction is the line's normal, folded into (-90°, 90°]
+      let degrees = (Math.atan2(gy, gx) * 180) / Math.PI;
+      if (degrees > 90) degrees -= 180;
+      if (degrees <= -90) degrees += 180;
+      angle[index] = degrees;
+    }
+  }
+
+  return { magnitude, angle };
+}
+
+function houghLines(
+  magnitude: Float32Array,
+  angle: Float32Array,
+  width: number,
+  height: number,
+  top: number
+): HoughLine[] {
+  const strengths: number[] = [];
+  for (let i = top * width; i < magnitude.length; i++) {
+    if (magnitude[i] > 0) strengths.push(magnitude[i]);
+  }
+  if (strengths.length === 0) return [];
+  strengths.sort((a, b) => b - a);
+  const threshold = Math.max(MIN_EDGE, strengths[Math.floor(strengths.length * EDGE_SHARE)] ?? MIN_EDGE);
+
+  const thetas = 2 * MAX_ANGLE + 1;
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  const rhos = 2 * diagonal + 1;
+  const votes = new Uint16Array(thetas * rhos);
+  const cos = Array.from({ length: thetas }, (_, t) => Math.cos(toRadians(t - MAX_ANGLE)));
+  const sin = Array.from({ length: thetas }, (_, t) => Math.sin(toRadians(t - MAX_ANGLE)));
+
+  for (let y = top; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      if (magnitude[index] < threshold) continue;
+
+      const centre = Math.round(angle[index]);
+      const from = Math.max(-MAX_ANGLE, centre - ANGLE_SPREAD);
+      const to = Math.min(MAX_ANGLE, centre + ANGLE_SPREAD);
+      for (let degrees = from; degrees <= to; degrees++) {
+        const t = degrees + MAX_ANGLE;
+        const rho = Math.round(x * cos[t] + y * sin[t]) + diagonal;
+        votes[t * rhos + rho]++;
+      }
+    }
+  }
+
+  // Strongest cells that are local maxima in their neighbourhood
+  const lines: HoughLine[] = [];
+  for (let t = 0; t < thetas; t++) {
+    for (let r = 0; r < rhos; r++) {
+      const count = votes[t * rhos + r];
+      if (count < 10) continue;
+      let peak = true;
+      for (let dt = -3; dt <= 3 && peak; dt++) {
+        for (let dr = -6; dr <= 6; dr++) {
+          const nt = t + dt;
+          const nr = r + dr;
+          if ((dt || dr) && nt >= 0 && nt < thetas && nr >= 0 && nr < rhos && votes[nt * rhos + nr] > count) {
+            peak = false;
+            break;
+          }
+        }
+      }
+      if (peak) lines.push({ theta: toRadians(t - MAX_ANGLE), rho: r - diagonal, votes: count });
+    }
+  }
+
+  return lines.sort((a, b) => b.votes - a.votes).slice(0, PEAKS);
+}
+
+// Left rail leans right going up (positive normal angle), the right rail left
+function pickRails(lines: HoughLine[], width: number, height: number) {
+  let best: { left: HoughLine; right: HoughLine; vx: number; vy: number } | null = null;
+  let bestVotes = 0;
+
+  for (const left of lines.filter(line => line.theta > 0)) {
+    for (const right of lines.filter(line => line.theta < 0)) {
+      const leftBottom = xAt(left, height);
+      const rightBottom = xAt(right, height);
+      const gauge = rightBottom - leftBottom;
+      if (leftBottom > width / 2 || rightBottom < width / 2) continue;
+      if (gauge < 0.1 * width || gauge > 0.9 * width) continue;
+
+      // Where the two lines meet
+      const determinant = Math.cos(left.theta) * Math.sin(right.theta) - Math.sin(left.theta) * Math.cos(right.theta);
+      if (Math.abs(determinant) < 1e-6) continue;
+      const vx = (left.rho * Math.sin(right.theta) - right.rho * Math.sin(left.theta)) / determinant;
+      const vy = (Math.cos(left.theta) * right.rho - Math.cos(right.theta) * left.rho) / determinant;
+      if (vy > 0.6 * height || vy < -0.5 * height) continue;
+      if (vx < 0.25 * width || vx > 0.75 * width) continue;
+
+      const votes = left.votes + right.votes;
+      if (votes > bestVotes) {
+        bestVotes = votes;
+        best = { left, right, vx, vy };
+      }
+    }
+  }
+
+  return best;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export function detectRailCorridor(image: CanvasImageSource, frameWidth: number, frameHeight: number): RailCorridor | null {
+  if (!frameWidth || !frameHeight) return null;
+
+  const width = WORK_WIDTH;
+  const height = Math.max(1, Math.round((WORK_WIDTH * frameHeight) / frameWidth));
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Cannot get canvas context');
+  ctx.drawImage(image, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+  }
+
+  const top = Math.floor(height * ROI_TOP);
+  const { magnitude, angle } = edgeMap(luma, width, height, top);
+  const rails = pickRails(houghLines(magnitude, angle, width, height, top), width, height);
+  if (!rails) return null;
+
+  const { left, right, vx, vy } = rails;
+  const leftBottom = xAt(left, height);
+  const rightBottom = xAt(right, height);
+  const clearance = CLEARANCE * (rightBottom - leftBottom);
+  const topY = Math.max(0, vy + CORRIDOR_TOP * (height - vy));
+  // Clearance shrinks with perspective towards the vanishing point
+  const topClearance = clearance * ((topY - vy) / (height - vy));
+
+  const point = (x: number, y: number): ZonePoint => ({ x: clamp01(x / width), y: clamp01(y / height) });
+  return {
+    points: [
+      point(leftBottom - clearance, height),
+      point(xAt(left, topY) - topClearance, topY),
+      point(xAt(right, topY) + topClearance, topY),
+      point(rightBottom + clearance, height),
+    ],
+    vanishingPoint: { x: vx / width, y: vy / height },
+  };
+}
+
+export interface RailTracker {
+  // The corridor for this frame, smoothed over earlier ones; null when lost
+  update(image: CanvasImageSource, width: number, height: number): RailCorridor | null;
+  reset(): void;
+}
+
+export function createRailTracker(): RailTracker {
+  let current: RailCorridor | null = null;
+  let misses = 0;
+
+  const blend = (from: ZonePoint, to: ZonePoint): ZonePoint => ({
+    x: from.x + (to.x - from.x) * SMOOTHING,
+    y: from.y + (to.y - from.y) * SMOOTHING,
+  });
+
+  return {
+    update(image, width, height) {
+      const found = detectRailCorridor(image, width, height);
+      if (!found) {
+        misses++;
+        if (misses > MAX_MISSES) current = null;
+        return current;
+      }
+
+      misses = 0;
+      const previous = current;
+      current = previous
+        ? {
+            points: found.points.map((point, index) => blend(previous.points[index], point)),
+            vanishingPoint: blend(previous.vanishingPoint, found.vanishingPoint),
+          }
+        : found;
+      return current;
+    },
+    reset() {
+      current = null;
+      misses = 0;
+    },
+  };
+}
+
+// The corridor found at the latest sample at or before `time`
+export function corridorAtTime(
+  corridors: Array<{ time: number; points: ZonePoint[] }>,
+  time: number
+): ZonePoint[] | null {
+  let latest: { time: number; points: ZonePoint[] } | null = null;
+  for (const corridor of corridors) {
+    if (corridor.time <= time + 1e-3 && (!latest || corridor.time > latest.time)) latest = corridor;
+  }
+  return latest?.points ?? null;
+}
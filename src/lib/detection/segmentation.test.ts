@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { decodeSegmentation, maskOutline } from './segmentation';
+
+const mask = (rows: string[]) => ({
+  data: Uint8Array.from(rows.join('').split(''), cell => (cell === '#' ? 1 : 0)),
+  width: rows[0].length,
+  height: rows.length,
+});
+
+describe('maskOutline', () => {
+  it('traces the span of each row down the left and back up the right', () => {
+    const { data, width, height } = mask([
+      '....',
+      '.##.',
+      '###.',
+    ]);
+    expect(maskOutline(data, width, height)).toEqual([
+      { x: 1, y: 1 }, { x: 1, y: 2 },
+      { x: 0, y: 2 }, { x: 0, y: 3 },
+      { x: 3, y: 3 }, { x: 3, y: 2 },
+      { x: 3, y: 2 }, { x: 3, y: 1 },
+    ]);
+  });
+
+  it('is empty for an empty mask', () => {
+    const { data, width, height } = mask(['...', '...']);
+    expect(maskOutline(data, width, height)).toEqual([]);
+  });
+});
+
+describe('decodeSegmentation', () => {
+  // One class, 32 mask coefficients and 64 anchors (more than channels, as in
+  // real exports); prototypes are 4x4 cells over a 64x64 input
+  const CHANNELS = 4 + 1 + 32;
+  const ANCHORS = 64;
+
+  it('outlines each instance from its coefficients and the prototypes, in image pixels', () => {
+    const output = new Float32Array(CHANNELS * ANCHORS);
+    const set = (channel: number, value: number) => { output[channel * ANCHORS] = value; };
+    // A box over the whole input, and only the first prototype switched on
+    set(0, 32);
+    set(1, 32);
+    set(2, 64);
+    set(3, 64);
+    set(4, 0.9);
+    set(5, 1);
+
+    // The first prototype is positive in the top-left 2x2 cells only
+    const prototypes = new Float32Array(32 * 16).fill(-1);
+    [0, 1, 4, 5].forEach(cell => { prototypes[cell] = 1; });
+
+    const [instance, ...rest] = decodeSegmentation(
+      { data: output, dims: [1, CHANNELS, ANCHORS] },
+      { data: prototypes, dims: [1, 32, 4, 4] },
+      { classes: ['rock'], scoreThreshold: 0.5, imageWidth: 128, imageHeight: 128, inputWidth: 64, inputHeight: 64 }
+    );
+
+    expect(rest).toEqual([]);
+    expect(instance.label).toBe('rock');
+    expect(instance.score).toBeCloseTo(0.9);
+    expect(instance.box).toEqual({ xmin: 0, ymin: 0, xmax: 128, ymax: 128 });
+    // Each prototype cell covers 32 image pixels
+    expect(instance.polygon).toEqual([
+      { x: 0, y: 0 }, { x: 0, y: 32 },
+      { x: 0, y: 32 }, { x: 0, y: 64 },
+      { x: 64, y: 64 }, { x: 64, y: 32 },
+      { x: 64, y: 32 }, { x: 64, y: 0 },
+    ]);
+  });
+
+  it('rejects outputs without room for mask coefficients', () => {
+    expect(() => decodeSegmentation(
+      { data: new Float32Array(6 * ANCHORS), dims: [1, 6, ANCHORS] },
+      { data: new Float32Array(32 * 16), dims: [1, 32, 4, 4] },
+      { classes: [], scoreThreshold: 0.5, imageWidth: 64, imageHeight: 64, inputWidth: 64, inputHeight: 64 }
+    )).toThrow(/output shape/);
+  });
+});
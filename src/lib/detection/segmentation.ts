@@ -0,0 +1,102 @@
+// Decodes YOLOv8-seg outputs: boxes with class scores and mask coefficients
+// (output0), plus mask prototypes shared by every instance (output1). Each
+// kept instance gets an outline in frame pixels instead of a full mask, which
+// is small enough to store with the detection and cheap to draw.
+
+import { nonMaxSuppression } from './thresholds';
+import {
+  CANDIDATE_IOU,
+  MAX_INSTANCES,
+  decodeCandidates,
+  type DecodeOptions,
+  type DetectedObject,
+  type RawTensor,
+} from './yolo';
+
+export interface SegmentedObject extends DetectedObject {
+  polygon: Array<{ x: number; y: number }>;
+}
+
+const MASK_COEFFICIENTS = 32;
+
+// Rows of the mask, top to bottom, as the span between their leftmost and
+// rightmost set cells; traced down the left side and back up the right
+export function maskOutline(
+  mask: Uint8Array,
+  width: number,
+  height: number
+): Array<{ x: number; y: number }> {
+  const left: Array<{ x: number; y: number }> = [];
+  const right: Array<{ x: number; y: number }> = [];
+
+  for (let y = 0; y < height; y++) {
+    let minX = -1;
+    let maxX = -1;
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) continue;
+      if (minX < 0) minX = x;
+      maxX = x;
+    }
+    if (minX < 0) continue;
+    left.push({ x: minX, y }, { x: minX, y: y + 1 });
+    right.push({ x: maxX + 1, y }, { x: maxX + 1, y: y + 1 });
+  }
+
+  return [...left, ...right.reverse()];
+}
+
+export function decodeSegmentation(
+  output: RawTensor,
+  prototypes: RawTensor,
+  options: DecodeOptions
+): SegmentedObject[] {
+  const { imageWidth, imageHeight } = options;
+  const { candidates, classCount, value } = decodeCandidates(output, MASK_COEFFICIENTS, options);
+
+  const [, , maskHeight, maskWidth] = prototypes.dims;
+  const maskArea = maskHeight * maskWidth;
+  // Prototype cells per frame pixel
+  const cellX = maskWidth / imageWidth;
+  const cellY = maskHeight / imageHeight;
+
+  return nonMaxSuppression(candidates, CANDIDATE_IOU)
+    .slice(0, MAX_INSTANCES)
+    .map(candidate => {
+      const anchor = Number(candidate.id);
+      const { x, y, width, height } = candidate.bbox;
+
+      // Only cells inside the box belong to the instance
+      const x0 = Math.max(0, Math.floor(x * cellX));
+      const y0 = Math.max(0, Math.floor(y * cellY));
+      const x1 = Math.min(maskWidth, Math.ceil((x + width) * cellX));
+      const y1 = Math.min(maskHeight, Math.ceil((y + height) * cellY));
+      const cropWidth = Math.max(0, x1 - x0);
+      const cropHeight = Math.max(0, y1 - y0);
+      const mask = new Uint8Array(cropWidth * cropHeight);
+
+      const coefficients = Array.from({ length: MASK_COEFFICIENTS }, (_, k) => value(4 + classCount + k, anchor));
+      for (let row = 0; row < cropHeight; row++) {
+        for (let col = 0; col < cropWidth; col++) {
+          const cell = (y0 + row) * maskWidth + x0 + col;
+          let logit = 0;
+          for (let k = 0; k < MASK_COEFFICIENTS; k++) {
+            logit += coefficients[k] * prototypes.data[k * maskArea + cell];
+          }
+          // sigmoid(logit) > 0.5
+          mask[row * cropWidth + col] = logit > 0 ? 1 : 0;
+        }
+      }
+
+      const polygon = maskOutline(mask, cropWidth, cropHeight).map(point => ({
+        x: (x0 + point.x) / cellX,
+        y: (y0 + point.y) / cellY,
+      }));
+
+      return {
+        label: candidate.label,
+        score: candidate.confidence,
+        box: { xmin: x, ymin: y, xmax: x + width, ymax: y + height },
+        polygon,
+      };
+    });
+}
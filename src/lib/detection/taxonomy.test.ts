@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { COCO_LABELS, DEFAULT_TAXONOMY, UNMAPPED_TARGET, normalizeLabel, resolveLabel } from './taxonomy';
+
+describe('resolveLabel', () => {
+  it('maps model labels onto detection types', () => {
+    expect(resolveLabel(DEFAULT_TAXONOMY, 'person')).toBe('person');
+    expect(resolveLabel(DEFAULT_TAXONOMY, 'truck')).toBe('vehicle');
+    expect(resolveLabel(DEFAULT_TAXONOMY, 'cow')).toBe('animal');
+    expect(resolveLabel(DEFAULT_TAXONOMY, 'suitcase')).toBe('debris');
+  });
+
+  it('ignores trackside furniture', () => {
+    expect(resolveLabel(DEFAULT_TAXONOMY, 'traffic light')).toBe('ignore');
+    expect(resolveLabel(DEFAULT_TAXONOMY, 'bench')).toBe('ignore');
+  });
+
+  it('matches labels regardless of case and surrounding spaces', () => {
+    expect(normalizeLabel('  Stop Sign ')).toBe('stop sign');
+    expect(resolveLabel(DEFAULT_TAXONOMY, ' Stop Sign')).toBe('ignore');
+  });
+
+  it('falls back to the unmapped target for unknown labels', () => {
+    expect(resolveLabel(DEFAULT_TAXONOMY, 'shopping cart')).toBe(UNMAPPED_TARGET);
+    expect(resolveLabel({}, 'person')).toBe(UNMAPPED_TARGET);
+  });
+
+  it('follows a custom taxonomy over the defaults', () => {
+    expect(resolveLabel({ ...DEFAULT_TAXONOMY, bench: 'obstacle', person: 'ignore' }, 'bench')).toBe('obstacle');
+    expect(resolveLabel({ ...DEFAULT_TAXONOMY, person: 'ignore' }, 'Person')).toBe('ignore');
+  });
+});
+
+describe('DEFAULT_TAXONOMY', () => {
+  it('only maps COCO labels', () => {
+    Object.keys(DEFAULT_TAXONOMY).forEach(label => expect(COCO_LABELS).toContain(label));
+  });
+});
@@ -0,0 +1,54 @@
+// Maps model class labels (as returned by transformers.js) to our railway
+// detection categories. Labels missing from a taxonomy fall back to 'obstacle'.
+
+import type { DetectionResult } from './types';
+
+export type DetectionType = DetectionResult['type'];
+export type TaxonomyTarget = DetectionType | 'ignore';
+export type Taxonomy = Record<string, TaxonomyTarget>;
+
+export const DETECTION_TYPES: DetectionType[] = ['person', 'animal', 'vehicle', 'obstacle', 'debris'];
+export const TAXONOMY_TARGETS: TaxonomyTarget[] = [...DETECTION_TYPES, 'ignore'];
+export const UNMAPPED_TARGET: DetectionType = 'obstacle';
+
+export const COCO_LABELS = [
+  'person', 'bicycle', 'car', 'motorcycle', 'airplane', 'bus', 'train', 'truck', 'boat',
+  'traffic light', 'fire hydrant', 'stop sign', 'parking meter', 'bench', 'bird', 'cat', 'dog',
+  'horse', 'sheep', 'cow', 'elephant', 'bear', 'zebra', 'giraffe', 'backpack', 'umbrella',
+  'handbag', 'tie', 'suitcase', 'frisbee', 'skis', 'snowboard', 'sports ball', 'kite',
+  'baseball bat', 'baseball glove', 'skateboard', 'surfboard', 'tennis racket', 'bottle',
+  'wine glass', 'cup', 'fork', 'knife', 'spoon', 'bowl', 'banana', 'apple', 'sandwich', 'orange',
+  'broccoli', 'carrot', 'hot dog', 'pizza', 'donut', 'cake', 'chair', 'couch', 'potted plant',
+  'bed', 'dining table', 'toilet', 'tv', 'laptop', 'mouse', 'remote', 'keyboard', 'cell phone',
+  'microwave', 'oven', 'toaster', 'sink', 'refrigerator', 'book', 'clock', 'vase', 'scissors',
+  'teddy bear', 'hair drier', 'toothbrush',
+];
+
+const DEFAULT_GROUPS: Record<TaxonomyTarget, string[]> = {
+  person: ['person'],
+  vehicle: ['bicycle', 'car', 'motorcycle', 'airplane', 'bus', 'train', 'truck', 'boat'],
+  animal: ['bird', 'cat', 'dog', 'horse', 'sheep', 'cow', 'elephant', 'bear', 'zebra', 'giraffe'],
+  // Large objects that physically block the line
+  obstacle: [
+    'chair', 'couch', 'bed', 'dining table', 'toilet', 'tv', 'microwave', 'oven',
+    'refrigerator', 'sink', 'potted plant',
+  ],
+  debris: [
+    'backpack', 'umbrella', 'handbag', 'suitcase', 'sports ball', 'kite', 'skis', 'snowboard',
+    'skateboard', 'surfboard', 'bottle', 'book', 'laptop', 'cell phone',
+  ],
+  // Trackside furniture the camera sees all the time
+  ignore: ['traffic light', 'fire hydrant', 'stop sign', 'parking meter', 'bench'],
+};
+
+export const DEFAULT_TAXONOMY: Taxonomy = Object.fromEntries(
+  Object.entries(DEFAULT_GROUPS).flatMap(([target, labels]) =>
+    labels.map(label => [label, target as TaxonomyTarget])
+  )
+);
+
+export const normalizeLabel = (label: string): string => label.trim().toLowerCase();
+
+export function resolveLabel(taxonomy: Taxonomy, label: string): TaxonomyTarget {
+  return taxonomy[normalizeLabel(label)] ?? UNMAPPED_TARGET;
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_THRESHOLDS,
+  applyThresholds,
+  intersectionOverUnion,
+  minimumThreshold,
+  nonMaxSuppression,
+} from './thresholds';
+import type { DetectionResult } from './types';
+
+const detection = (
+  id: string,
+  type: DetectionResult['type'],
+  confidence: number,
+  x = 0,
+  y = 0,
+  size = 10
+): DetectionResult => ({
+  id,
+  label: type,
+  type,
+  confidence,
+  bbox: { x, y, width: size, height: size },
+  center: { x: x + size / 2, y: y + size / 2 },
+});
+
+describe('intersectionOverUnion', () => {
+  it('is 1 for identical boxes and 0 for disjoint ones', () => {
+    const box = { x: 0, y: 0, width: 10, height: 10 };
+    expect(intersectionOverUnion(box, box)).toBe(1);
+    expect(intersectionOverUnion(box, { x: 20, y: 20, width: 10, height: 10 })).toBe(0);
+  });
+
+  it('divides the overlap by the combined area', () => {
+    const a = { x: 0, y: 0, width: 10, height: 10 };
+    const b = { x: 5, y: 0, width: 10, height: 10 };
+    expect(intersectionOverUnion(a, b)).toBeCloseTo(50 / 150);
+  });
+
+  it('is 0 for empty boxes', () => {
+    const empty = { x: 0, y: 0, width: 0, height: 0 };
+    expect(intersectionOverUnion(empty, empty)).toBe(0);
+  });
+});
+
+describe('applyThresholds', () => {
+  it('keeps detections at or above their class threshold', () => {
+    const kept = applyThresholds(
+      [
+        detection('a', 'person', DEFAULT_THRESHOLDS.perClass.person),
+        detection('b', 'person', DEFAULT_THRESHOLDS.perClass.person - 0.01),
+        detection('c', 'obstacle', 0.6),
+        detection('d', 'obstacle', 0.7),
+      ],
+      DEFAULT_THRESHOLDS
+    );
+    expect(kept.map(det => det.id)).toEqual(['a', 'd']);
+  });
+
+  it('uses the lowest class threshold as the pipeline cut-off', () => {
+    expect(minimumThreshold(DEFAULT_THRESHOLDS)).toBe(DEFAULT_THRESHOLDS.perClass.person);
+  });
+});
+
+describe('nonMaxSuppression', () => {
+  it('keeps the most confident of overlapping boxes across classes', () => {
+    const kept = nonMaxSuppression(
+      [detection('car', 'vehicle', 0.6), detection('truck', 'vehicle', 0.8, 1), detection('person', 'person', 0.7, 1, 1)],
+      0.5
+    );
+    expect(kept.map(det => det.id)).toEqual(['truck']);
+  });
+
+  it('keeps boxes that overlap less than the threshold, most confident first', () => {
+    const kept = nonMaxSuppression(
+      [detection('left', 'person', 0.5), detection('right', 'person', 0.9, 6)],
+      0.5
+    );
+    expect(kept.map(det => det.id)).toEqual(['right', 'left']);
+  });
+
+  it('does not modify its input', () => {
+    const input = [detection('a', 'person', 0.5), detection('b', 'person', 0.9)];
+    nonMaxSuppression(input, 0.5);
+    expect(input.map(det => det.id)).toEqual(['a', 'b']);
+  });
+});
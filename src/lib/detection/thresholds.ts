@@ -0,0 +1,63 @@
+// Per-class confidence thresholds and cross-class non-maximum suppression,
+// applied to worker output before detections reach the UI.
+
+import type { DetectionType } from './taxonomy';
+import type { DetectionResult } from './types';
+
+export interface DetectionThresholds {
+  perClass: Record<DetectionType, number>;
+  nmsIoU: number;
+}
+
+export const DEFAULT_THRESHOLDS: DetectionThresholds = {
+  perClass: {
+    person: 0.35,
+    animal: 0.45,
+    vehicle: 0.5,
+    obstacle: 0.65,
+    debris: 0.5,
+  },
+  nmsIoU: 0.5,
+};
+
+type Box = DetectionResult['bbox'];
+
+export function intersectionOverUnion(a: Box, b: Box): number {
+  const x1 = Math.max(a.x, b.x);
+  const y1 = Math.max(a.y, b.y);
+  const x2 = Math.min(a.x + a.width, b.x + b.width);
+  const y2 = Math.min(a.y + a.height, b.y + b.height);
+
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+// The lowest score any class accepts; the pipeline must not drop anything below it
+export const minimumThreshold = (thresholds: DetectionThresholds): number =>
+  Math.min(...Object.values(thresholds.perClass));
+
+export function applyThresholds(
+  detections: DetectionResult[],
+  thresholds: DetectionThresholds
+): DetectionResult[] {
+  return detections.filter(det => det.confidence >= (thresholds.perClass[det.type] ?? 0.5));
+}
+
+// Greedy NMS across classes, so one object labelled twice (e.g. "car" and
+// "truck") is only reported once, with its most confident label.
+export function nonMaxSuppression(
+  detections: DetectionResult[],
+  iouThreshold: number
+): DetectionResult[] {
+  const sorted = [...detections].sort((a, b) => b.confidence - a.confidence);
+  const kept: DetectionResult[] = [];
+
+  for (const candidate of sorted) {
+    if (kept.every(det => intersectionOverUnion(det.bbox, candidate.bbox) <= iouThreshold)) {
+      kept.push(candidate);
+    }
+  }
+
+  return kept;
+}
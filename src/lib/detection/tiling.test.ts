@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TILING, computeTiles, type TilingConfig } from './tiling';
+
+const config = (overrides: Partial<TilingConfig> = {}): TilingConfig => ({ ...DEFAULT_TILING, enabled: true, ...overrides });
+
+describe('computeTiles', () => {
+  it('gives no tiles when off or when the frame fits one tile', () => {
+    expect(computeTiles(1920, 1080, DEFAULT_TILING)).toEqual([]);
+    expect(computeTiles(640, 480, config())).toEqual([]);
+  });
+
+  it('covers the frame with overlapping tiles, the last flush with the edge', () => {
+    const tiles = computeTiles(1920, 1080, config({ tileSize: 640, overlap: 0.2 }));
+    expect(Array.from(new Set(tiles.map(tile => tile.x)))).toEqual([0, 512, 1024, 1280]);
+    expect(Array.from(new Set(tiles.map(tile => tile.y)))).toEqual([0, 440]);
+    expect(tiles).toHaveLength(8);
+    tiles.forEach(tile => {
+      expect(tile.width).toBe(640);
+      expect(tile.height).toBe(640);
+      expect(tile.x + tile.width).toBeLessThanOrEqual(1920);
+      expect(tile.y + tile.height).toBeLessThanOrEqual(1080);
+    });
+  });
+
+  it('keeps short sides as a single, clipped row', () => {
+    const tiles = computeTiles(1920, 400, config({ tileSize: 640, overlap: 0 }));
+    expect(tiles.map(tile => [tile.x, tile.y, tile.width, tile.height])).toEqual([
+      [0, 0, 640, 400],
+      [640, 0, 640, 400],
+      [1280, 0, 640, 400],
+    ]);
+  });
+
+  it('clamps the overlap to half a tile', () => {
+    const tiles = computeTiles(1280, 640, config({ tileSize: 640, overlap: 0.9 }));
+    expect(tiles.map(tile => tile.x)).toEqual([0, 320, 640]);
+  });
+});
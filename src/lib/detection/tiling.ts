@@ -0,0 +1,60 @@
+// Sliced (tiled) inference: the frame is cut into overlapping tiles that the
+// detector sees at full resolution, so distant objects are not downscaled away.
+
+export interface TilingConfig {
+  enabled: boolean;
+  // Tile edge in source pixels
+  tileSize: number;
+  // Fraction of the tile shared with its neighbour, 0 to 0.5
+  overlap: number;
+}
+
+export interface TileRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_TILING: TilingConfig = {
+  enabled: false,
+  tileSize: 640,
+  overlap: 0.2,
+};
+
+export const TILE_SIZES = [320, 416, 512, 640, 960];
+
+const axisOffsets = (length: number, tile: number, stride: number): number[] => {
+  if (length <= tile) return [0];
+
+  const offsets: number[] = [];
+  for (let offset = 0; offset + tile < length; offset += stride) {
+    offsets.push(offset);
+  }
+  // Last tile is flush with the far edge rather than running past it
+  offsets.push(length - tile);
+  return offsets;
+};
+
+export function computeTiles(width: number, height: number, config: TilingConfig): TileRect[] {
+  if (!config.enabled || (width <= config.tileSize && height <= config.tileSize)) {
+    return [];
+  }
+
+  const tile = Math.max(32, Math.round(config.tileSize));
+  const overlap = Math.min(0.5, Math.max(0, config.overlap));
+  const stride = Math.max(1, Math.round(tile * (1 - overlap)));
+
+  const tiles: TileRect[] = [];
+  for (const y of axisOffsets(height, tile, stride)) {
+    for (const x of axisOffsets(width, tile, stride)) {
+      tiles.push({
+        x,
+        y,
+        width: Math.min(tile, width - x),
+        height: Math.min(tile, height - y),
+      });
+    }
+  }
+  return tiles;
+}
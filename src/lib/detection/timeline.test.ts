@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { adjacentEvent, buildTimelineEvents, samplingCoverage, timelineDensity } from './timeline';
+import type { DangerLevel, Detection } from './types';
+
+const detection = (timeInVideo: number | undefined, dangerLevel: DangerLevel = 'low'): Detection => ({
+  id: `${timeInVideo}-${dangerLevel}`,
+  type: 'obstacle',
+  confidence: 0.8,
+  location: 'Track',
+  dangerLevel,
+  timestamp: new Date(0),
+  description: 'obstacle',
+  timeInVideo,
+});
+
+describe('buildTimelineEvents', () => {
+  it('groups detections by time with the worst danger level, in video order', () => {
+    const events = buildTimelineEvents([
+      detection(4, 'medium'),
+      detection(2, 'low'),
+      detection(4, 'critical'),
+      detection(4, 'high'),
+      detection(undefined, 'critical'),
+    ]);
+    expect(events).toEqual([
+      { time: 2, dangerLevel: 'low', count: 1 },
+      { time: 4, dangerLevel: 'critical', count: 3 },
+    ]);
+  });
+});
+
+describe('timelineDensity', () => {
+  it('bins counts over the video, scaled to the busiest bin', () => {
+    const events = [
+      { time: 0.5, dangerLevel: 'low' as const, count: 1 },
+      { time: 5, dangerLevel: 'low' as const, count: 4 },
+      { time: 10, dangerLevel: 'low' as const, count: 2 },
+    ];
+    // The last instant falls in the last bin
+    expect(timelineDensity(events, 10, 4)).toEqual([0.25, 0, 1, 0.5]);
+  });
+
+  it('is empty without events or a duration', () => {
+    expect(timelineDensity([], 10, 3)).toEqual([0, 0, 0]);
+    expect(timelineDensity([{ time: 1, dangerLevel: 'low', count: 1 }], 0, 2)).toEqual([0, 0]);
+  });
+});
+
+describe('samplingCoverage', () => {
+  it('counts one per analysed frame', () => {
+    expect(samplingCoverage([0, 1, 2, 3, 8], 10, 2)).toEqual([1, 0.25]);
+  });
+});
+
+describe('adjacentEvent', () => {
+  const events = buildTimelineEvents([detection(1), detection(3), detection(6)]);
+
+  it('steps to the next and previous event', () => {
+    expect(adjacentEvent(events, 2, 1)?.time).toBe(3);
+    expect(adjacentEvent(events, 2, -1)?.time).toBe(1);
+  });
+
+  it('skips the event currently on screen', () => {
+    expect(adjacentEvent(events, 3.0005, 1)?.time).toBe(6);
+    expect(adjacentEvent(events, 2.9995, -1)?.time).toBe(1);
+  });
+
+  it('stops at either end', () => {
+    expect(adjacentEvent(events, 6, 1)).toBeNull();
+    expect(adjacentEvent(events, 1, -1)).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+// Groups detections by the moment they were seen, for the timeline under the
+// player and for stepping between events.
+
+import type { DangerLevel, Detection } from './types';
+
+export interface TimelineEvent {
+  time: number;
+  // Worst danger level among the detections at this time
+  dangerLevel: DangerLevel;
+  count: number;
+}
+
+const DANGER_RANK: Record<DangerLevel, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+export function buildTimelineEvents(detections: Detection[]): TimelineEvent[] {
+  const byTime = new Map<number, TimelineEvent>();
+
+  detections.forEach(detection => {
+    if (detection.timeInVideo === undefined) return;
+
+    const event = byTime.get(detection.timeInVideo);
+    if (!event) {
+      byTime.set(detection.timeInVideo, { time: detection.timeInVideo, dangerLevel: detection.dangerLevel, count: 1 });
+      return;
+    }
+    event.count++;
+    if (DANGER_RANK[detection.dangerLevel] > DANGER_RANK[event.dangerLevel]) {
+      event.dangerLevel = detection.dangerLevel;
+    }
+  });
+
+  return Array.from(byTime.values()).sort((a, b) => a.time - b.time);
+}
+
+// Counts per bin, scaled so the busiest bin is 1
+const normalizedBins = (items: { time: number; count: number }[], duration: number, bins: number): number[] => {
+  const counts = new Array<number>(bins).fill(0);
+  if (duration <= 0) return counts;
+
+  items.forEach(item => {
+    const bin = Math.min(bins - 1, Math.floor((item.time / duration) * bins));
+    counts[bin] += item.count;
+  });
+
+  const max = Math.max(...counts);
+  return max > 0 ? counts.map(count => count / max) : counts;
+};
+
+export function timelineDensity(events: TimelineEvent[], duration: number, bins: number): number[] {
+  return normalizedBins(events, duration, bins);
+}
+
+// How densely each stretch of the video was analysed
+export function samplingCoverage(times: number[], duration: number, bins: number): number[] {
+  return normalizedBins(times.map(time => ({ time, count: 1 })), duration, bins);
+}
+
+// The event strictly after (or before) `time`; a small tolerance skips the one on screen
+export function adjacentEvent(events: TimelineEvent[], time: number, direction: -1 | 1): TimelineEvent | null {
+  const tolerance = 1e-3;
+  if (direction === 1) {
+    return events.find(event => event.time > time + tolerance) ?? null;
+  }
+  for (let i = events.length - 1; i >= 0; i--) {
+    if (events[i].time < time - tolerance) return events[i];
+  }
+  return null;
+}
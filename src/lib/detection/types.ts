@@ -0,0 +1,57 @@
+export interface DetectionResult {
+  id: string;
+  label: string;
+  type: 'person' | 'animal' | 'vehicle' | 'obstacle' | 'debris';
+  confidence: number;
+  bbox: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+  center: {
+    x: number;
+    y: number;
+  };
+  // Object outline in frame pixels, from segmentation models only
+  polygon?: Array<{ x: number; y: number }>;
+  // Mapped to 'ignore' by the taxonomy; never reported, but a zero-shot
+  // negative prompt still takes part in suppression to claim its box
+  ignored?: boolean;
+}
+
+export type DangerLevel = 'low' | 'medium' | 'high' | 'critical';
+
+// A detection as reported to operators, with its danger assessment
+export interface Detection {
+  id: string;
+  type: DetectionResult['type'];
+  confidence: number;
+  location: string;
+  dangerLevel: DangerLevel;
+  timestamp: Date;
+  description: string;
+  timeInVideo?: number; // Time in seconds when detection occurred
+  videoId?: string;
+  // Raw model label and box in source pixels, for drawing over the frame
+  label?: string;
+  bbox?: DetectionResult['bbox'];
+  polygon?: DetectionResult['polygon'];
+  // Share of the object inside the camera's danger zone, 0 to 1, when one is set
+  zoneOverlap?: number;
+  distance?: DetectionDistance;
+  evidence?: DetectionEvidence;
+}
+
+// Metres when the camera is calibrated, otherwise relative depth in the frame (0 nearest)
+export interface DetectionDistance {
+  value: number;
+  calibrated: boolean;
+}
+
+// Object URLs for the evidence images; the blobs themselves live in IndexedDB
+export interface DetectionEvidence {
+  frameId: string;
+  frameUrl: string;
+  cropUrl: string;
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { decodeDetections, type RawTensor } from './yolo';
+
+// Builds a [1, channels, anchors] output from one row of channels per anchor,
+// padded with empty anchors: real exports have far more anchors than channels,
+// which is how the decoder tells the layout apart
+const channelsFirst = (rows: number[][], anchors = 16): RawTensor => {
+  const channels = rows[0].length;
+  const data = new Float32Array(channels * anchors);
+  rows.forEach((values, anchor) => values.forEach((value, channel) => {
+    data[channel * anchors + anchor] = value;
+  }));
+  return { data, dims: [1, channels, anchors] };
+};
+
+const options = {
+  classes: ['person', 'car'],
+  scoreThreshold: 0.25,
+  imageWidth: 1280,
+  imageHeight: 720,
+  inputWidth: 640,
+  inputHeight: 640,
+};
+
+describe('decodeDetections', () => {
+  it('scales centre-size boxes to the image and picks the best class', () => {
+    const [detection] = decodeDetections(channelsFirst([[320, 320, 64, 64, 0.1, 0.9]]), options);
+    expect(detection.label).toBe('car');
+    expect(detection.score).toBeCloseTo(0.9);
+    expect(detection.box).toEqual({ xmin: 576, ymin: 324, xmax: 704, ymax: 396 });
+  });
+
+  it('drops low scores and merges overlapping anchors', () => {
+    const detections = decodeDetections(channelsFirst([
+      [100, 100, 50, 50, 0.8, 0],
+      [102, 100, 50, 50, 0.7, 0],
+      [400, 400, 50, 50, 0, 0.6],
+      [500, 500, 50, 50, 0.2, 0.1],
+    ]), options);
+    expect(detections.map(detection => [detection.label, detection.score.toFixed(1)])).toEqual([
+      ['person', '0.8'],
+      ['car', '0.6'],
+    ]);
+  });
+
+  it('reads transposed [1, anchors, channels] outputs too', () => {
+    const data = Float32Array.from([320, 320, 64, 64, 0.9, 0.1, ...new Array(6 * 7).fill(0)]);
+    const [detection] = decodeDetections({ data, dims: [1, 8, 6] }, options);
+    expect(detection.label).toBe('person');
+    expect(detection.box.xmin).toBe(576);
+  });
+
+  it('rejects outputs that do not match the label file', () => {
+    const output = channelsFirst([[320, 320, 64, 64, 0.9, 0.1, 0.2]]);
+    expect(() => decodeDetections(output, options)).toThrow(/3 classes but its label file lists 2/);
+    expect(() => decodeDetections({ data: new Float32Array(4), dims: [1, 4] }, options)).toThrow(/output shape/);
+  });
+});
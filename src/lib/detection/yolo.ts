@@ -0,0 +1,116 @@
+// Decodes raw Ultralytics YOLOv8 outputs, [1, 4 + classes + extra, anchors]:
+// a centre-size box in model input pixels, one score per class, then anything
+// the head adds (mask coefficients for -seg). Imported models keep these
+// outputs because transformers.js has no post-processor for them.
+
+import { nonMaxSuppression } from './thresholds';
+import type { DetectionResult } from './types';
+
+export interface RawTensor {
+  data: Float32Array;
+  dims: number[];
+}
+
+export interface DetectedObject {
+  label: string;
+  score: number;
+  box: { xmin: number; ymin: number; xmax: number; ymax: number };
+}
+
+export interface DecodeOptions {
+  classes: string[];
+  scoreThreshold: number;
+  // Size of the image the model saw, which was stretched to its input size
+  imageWidth: number;
+  imageHeight: number;
+  inputWidth: number;
+  inputHeight: number;
+}
+
+export interface YoloCandidates {
+  // Best class per anchor above the threshold; ids are anchor indices
+  candidates: DetectionResult[];
+  classCount: number;
+  // Raw output value, whichever way round the export laid it out
+  value: (channel: number, anchor: number) => number;
+}
+
+// Overlapping candidates from neighbouring anchors are merged
+export const CANDIDATE_IOU = 0.5;
+export const MAX_INSTANCES = 100;
+
+export function decodeCandidates(
+  output: RawTensor,
+  extraChannels: number,
+  { classes, scoreThreshold, imageWidth, imageHeight, inputWidth, inputHeight }: DecodeOptions
+): YoloCandidates {
+  if (output.dims.length !== 3) {
+    throw new Error(`Unexpected YOLOv8 output shape [${output.dims.join(', ')}]`);
+  }
+
+  // Ultralytics exports are [1, channels, anchors], some converters transpose them
+  const [, first, second] = output.dims;
+  const channelsFirst = first < second;
+  const channels = channelsFirst ? first : second;
+  const anchors = channelsFirst ? second : first;
+  const value = (channel: number, anchor: number) =>
+    output.data[channelsFirst ? channel * anchors + anchor : anchor * channels + channel];
+
+  const classCount = channels - 4 - extraChannels;
+  if (classCount <= 0) {
+    throw new Error(`Unexpected YOLOv8 output shape [${output.dims.join(', ')}]`);
+  }
+
+  const scaleX = imageWidth / inputWidth;
+  const scaleY = imageHeight / inputHeight;
+
+  // As detections so the shared suppression can thin them out
+  const candidates: DetectionResult[] = [];
+  for (let anchor = 0; anchor < anchors; anchor++) {
+    let best = 0;
+    let score = 0;
+    for (let c = 0; c < classCount; c++) {
+      const classScore = value(4 + c, anchor);
+      if (classScore > score) {
+        score = classScore;
+        best = c;
+      }
+    }
+    if (score < scoreThreshold) continue;
+
+    const cx = value(0, anchor) * scaleX;
+    const cy = value(1, anchor) * scaleY;
+    const width = value(2, anchor) * scaleX;
+    const height = value(3, anchor) * scaleY;
+    candidates.push({
+      id: String(anchor),
+      label: classes[best] ?? `class ${best}`,
+      // Resolved against the taxonomy by the worker
+      type: 'obstacle',
+      confidence: score,
+      bbox: { x: cx - width / 2, y: cy - height / 2, width, height },
+      center: { x: cx, y: cy },
+    });
+  }
+
+  return { candidates, classCount, value };
+}
+
+export function decodeDetections(output: RawTensor, options: DecodeOptions): DetectedObject[] {
+  const { candidates, classCount } = decodeCandidates(output, 0, options);
+  // A mismatch means the labels belong to another model, or this isn't a detect head
+  if (classCount !== options.classes.length) {
+    throw new Error(
+      `Model outputs ${classCount} classes but its label file lists ${options.classes.length}; ` +
+      'expected a YOLOv8 detection export'
+    );
+  }
+
+  return nonMaxSuppression(candidates, CANDIDATE_IOU)
+    .slice(0, MAX_INSTANCES)
+    .map(({ label, confidence, bbox: { x, y, width, height } }) => ({
+      label,
+      score: confidence,
+      box: { xmin: x, ymin: y, xmax: x + width, ymax: y + height },
+    }));
+}
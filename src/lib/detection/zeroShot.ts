@@ -0,0 +1,54 @@
+// Open-vocabulary detection with OWL-ViT: operators describe what to look for
+// in plain text, and each prompt is reported as one of our detection types.
+// Runs alongside YOLO for the things its COCO classes can't express.
+
+import type { BackendDtype } from './backend';
+import { normalizeLabel, type Taxonomy, type TaxonomyTarget } from './taxonomy';
+
+export interface ZeroShotPrompt {
+  text: string;
+  // 'ignore' makes a negative prompt: it claims boxes that would otherwise be misread
+  target: TaxonomyTarget;
+}
+
+export interface ZeroShotSettings {
+  enabled: boolean;
+  prompts: ZeroShotPrompt[];
+  // OWL-ViT scores run much lower than YOLO's, so it has its own cut-off
+  threshold: number;
+}
+
+export const ZERO_SHOT_MODEL = {
+  name: 'OWL-ViT Base/32',
+  repo: 'Xenova/owlvit-base-patch32',
+  sizeBytes: 153 * 1024 * 1024,
+  dtypes: ['fp32', 'q8'] as BackendDtype[],
+};
+
+export const DEFAULT_ZERO_SHOT: ZeroShotSettings = {
+  enabled: false,
+  prompts: [
+    { text: 'fallen tree', target: 'obstacle' },
+    { text: 'tree branch', target: 'debris' },
+    { text: 'rockfall', target: 'debris' },
+    { text: 'large rock', target: 'obstacle' },
+    { text: 'shopping cart', target: 'obstacle' },
+    { text: 'tire', target: 'debris' },
+  ],
+  threshold: 0.1,
+};
+
+// Distinct, non-empty prompt texts in the order operators listed them
+export function promptTexts(prompts: ZeroShotPrompt[]): string[] {
+  return Array.from(new Set(prompts.map(prompt => normalizeLabel(prompt.text)).filter(Boolean)));
+}
+
+// Results come back labelled with the prompt text, so prompts double as a taxonomy
+export function promptTaxonomy(prompts: ZeroShotPrompt[]): Taxonomy {
+  const taxonomy: Taxonomy = {};
+  prompts.forEach(prompt => {
+    const text = normalizeLabel(prompt.text);
+    if (text && !(text in taxonomy)) taxonomy[text] = prompt.target;
+  });
+  return taxonomy;
+}
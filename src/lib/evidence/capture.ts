@@ -0,0 +1,145 @@
+// Captures evidence images for a frame's detections: the full frame as JPEG
+// and a padded crop around each box, taken from the canvas inference ran on.
+
+import type { Detection } from '@/lib/detection/types';
+import { saveEvidence, uploadEvidence, type StoredCrop, type StoredFrame } from './store';
+
+export interface EvidenceSettings {
+  enabled: boolean;
+  // Extra margin around each box, as a fraction of the box size
+  padding: number;
+  // JPEG quality, 0 to 1
+  quality: number;
+  // Also copy images to Supabase Storage
+  upload: boolean;
+}
+
+// Off until asked for: snapshots stay in the browser until they are cleared
+export const DEFAULT_EVIDENCE: EvidenceSettings = {
+  enabled: false,
+  padding: 0.2,
+  quality: 0.85,
+  upload: false,
+};
+
+interface CaptureOptions {
+  videoId: string;
+  timeInVideo: number;
+  settings: EvidenceSettings;
+  userId: string | null;
+}
+
+const canvasToJpeg = (canvas: HTMLCanvasElement, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Could not encode snapshot'))),
+      'image/jpeg',
+      quality
+    );
+  });
+
+export function paddedRect(bbox: NonNullable<Detection['bbox']>, padding: number, width: number, height: number) {
+  const padX = bbox.width * padding;
+  const padY = bbox.height * padding;
+  const x = Math.max(0, Math.floor(bbox.x - padX));
+  const y = Math.max(0, Math.floor(bbox.y - padY));
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(width, Math.ceil(bbox.x + bbox.width + padX)) - x),
+    height: Math.max(1, Math.min(height, Math.ceil(bbox.y + bbox.height + padY)) - y),
+  };
+}
+
+async function cropImage(source: HTMLCanvasElement, detection: Detection, settings: EvidenceSettings): Promise<Blob> {
+  const rect = detection.bbox
+    ? paddedRect(detection.bbox, settings.padding, source.width, source.height)
+    : { x: 0, y: 0, width: source.width, height: source.height };
+
+  const crop = document.createElement('canvas');
+  crop.width = rect.width;
+  crop.height = rect.height;
+  const ctx = crop.getContext('2d');
+  if (!ctx) throw new Error('Cannot get canvas context');
+  ctx.drawImage(source, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+  return canvasToJpeg(crop, settings.quality);
+}
+
+// Returns the detections with evidence attached once the images are stored.
+// Capture problems never fail analysis; the detections come back without images.
+// The attached object URLs are owned by whoever displays them, and revoked
+// through releaseEvidenceUrls once they are no longer shown.
+export async function captureEvidence(
+  canvas: HTMLCanvasElement,
+  detections: Detection[],
+  options: CaptureOptions
+): Promise<Detection[]> {
+  if (!options.settings.enabled || detections.length === 0) return detections;
+
+  try {
+    return await storeEvidence(canvas, detections, options);
+  } catch (err) {
+    console.warn('Evidence capture failed:', err);
+    return detections;
+  }
+}
+
+async function storeEvidence(
+  canvas: HTMLCanvasElement,
+  detections: Detection[],
+  { videoId, timeInVideo, settings, userId }: CaptureOptions
+): Promise<Detection[]> {
+  const createdAt = Date.now();
+  const frame: StoredFrame = {
+    // Videos analysed side by side in a batch can hit the same millisecond
+    id: `frame-${videoId}-${createdAt}-${Math.round(timeInVideo * 1000)}`,
+    videoId,
+    timeInVideo,
+    image: await canvasToJpeg(canvas, settings.quality),
+    createdAt,
+  };
+  const crops: StoredCrop[] = await Promise.all(detections.map(async detection => ({
+    id: detection.id,
+    frameId: frame.id,
+    videoId,
+    image: await cropImage(canvas, detection, settings),
+    createdAt,
+  })));
+
+  await saveEvidence(frame, crops);
+
+  // Local copies are already safe, so a failed upload only loses the remote copy
+  if (settings.upload && userId) {
+    uploadEvidence(userId, frame, crops).catch(err => {
+      console.warn('Evidence upload failed:', err);
+    });
+  }
+
+  const frameUrl = URL.createObjectURL(frame.image);
+  return detections.map((detection, index) => ({
+    ...detection,
+    evidence: {
+      frameId: frame.id,
+      frameUrl,
+      cropUrl: URL.createObjectURL(crops[index].image),
+    },
+  }));
+}
+
+// Object URLs held by the detections, shared frames counted once
+export function evidenceUrls(detections: Detection[]): Set<string> {
+  const urls = new Set<string>();
+  detections.forEach(detection => {
+    if (!detection.evidence) return;
+    urls.add(detection.evidence.frameUrl);
+    urls.add(detection.evidence.cropUrl);
+  });
+  return urls;
+}
+
+// Revokes the URLs that were shown before but no longer are
+export function releaseEvidenceUrls(previous: Set<string>, current: Set<string>): void {
+  previous.forEach(url => {
+    if (!current.has(url)) URL.revokeObjectURL(url);
+  });
+}
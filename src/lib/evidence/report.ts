@@ -0,0 +1,46 @@
+// Embeds stored evidence images in exported reports as data URLs. Frames are
+// listed once and referenced by id from each detection.
+
+import type { Detection } from '@/lib/detection/types';
+import { loadCrop, loadFrame } from './store';
+
+export interface ReportImage {
+  dataUrl: string;
+  remotePath: string | null;
+}
+
+export interface ReportEvidence {
+  frames: Record<string, ReportImage>;
+  crops: Record<string, ReportImage>;
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export async function collectReportEvidence(detections: Detection[]): Promise<ReportEvidence> {
+  const evidence: ReportEvidence = { frames: {}, crops: {} };
+
+  for (const detection of detections) {
+    if (!detection.evidence) continue;
+
+    const frameId = detection.evidence.frameId;
+    if (!evidence.frames[frameId]) {
+      const frame = await loadFrame(frameId);
+      if (frame) {
+        evidence.frames[frameId] = { dataUrl: await blobToDataUrl(frame.image), remotePath: frame.remotePath ?? null };
+      }
+    }
+
+    const crop = await loadCrop(detection.id);
+    if (crop) {
+      evidence.crops[detection.id] = { dataUrl: await blobToDataUrl(crop.image), remotePath: crop.remotePath ?? null };
+    }
+  }
+
+  return evidence;
+}
@@ -0,0 +1,105 @@
+// Evidence images kept in IndexedDB, with optional copies in Supabase Storage.
+// Full frames are stored once and shared by every detection seen in them.
+
+import { supabase } from '@/integrations/supabase/client';
+import { requestToPromise, transactionDone } from '@/lib/idb';
+
+const DB_NAME = 'railway-monitor-evidence';
+const DB_VERSION = 1;
+const FRAMES_STORE = 'frames';
+const CROPS_STORE = 'crops';
+
+export const EVIDENCE_BUCKET = 'evidence';
+
+export interface StoredFrame {
+  id: string;
+  videoId: string;
+  timeInVideo: number;
+  image: Blob;
+  createdAt: number;
+  remotePath?: string;
+}
+
+export interface StoredCrop {
+  // Detection id
+  id: string;
+  frameId: string;
+  videoId: string;
+  image: Blob;
+  createdAt: number;
+  remotePath?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(FRAMES_STORE)) {
+        db.createObjectStore(FRAMES_STORE, { keyPath: 'id' }).createIndex('videoId', 'videoId');
+      }
+      if (!db.objectStoreNames.contains(CROPS_STORE)) {
+        db.createObjectStore(CROPS_STORE, { keyPath: 'id' }).createIndex('videoId', 'videoId');
+      }
+    };
+    dbPromise = requestToPromise(request);
+  }
+  return dbPromise;
+}
+
+export async function saveEvidence(frame: StoredFrame, crops: StoredCrop[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([FRAMES_STORE, CROPS_STORE], 'readwrite');
+  transaction.objectStore(FRAMES_STORE).put(frame);
+  const cropStore = transaction.objectStore(CROPS_STORE);
+  crops.forEach(crop => cropStore.put(crop));
+  await transactionDone(transaction);
+}
+
+export async function loadFrame(id: string): Promise<StoredFrame | undefined> {
+  const db = await openDatabase();
+  const store = db.transaction(FRAMES_STORE, 'readonly').objectStore(FRAMES_STORE);
+  return requestToPromise(store.get(id) as IDBRequest<StoredFrame | undefined>);
+}
+
+export async function loadCrop(detectionId: string): Promise<StoredCrop | undefined> {
+  const db = await openDatabase();
+  const store = db.transaction(CROPS_STORE, 'readonly').objectStore(CROPS_STORE);
+  return requestToPromise(store.get(detectionId) as IDBRequest<StoredCrop | undefined>);
+}
+
+export async function countStoredFrames(): Promise<number> {
+  const db = await openDatabase();
+  const store = db.transaction(FRAMES_STORE, 'readonly').objectStore(FRAMES_STORE);
+  return requestToPromise(store.count());
+}
+
+// Local copies only; uploaded images stay in Storage
+export async function clearEvidence(): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([FRAMES_STORE, CROPS_STORE], 'readwrite');
+  transaction.objectStore(FRAMES_STORE).clear();
+  transaction.objectStore(CROPS_STORE).clear();
+  await transactionDone(transaction);
+}
+
+async function uploadImage(path: string, image: Blob): Promise<string> {
+  const { error } = await supabase.storage
+    .from(EVIDENCE_BUCKET)
+    .upload(path, image, { contentType: image.type, upsert: true });
+  if (error) throw error;
+  return path;
+}
+
+// Copies the frame and its crops to Storage and records where they went
+export async function uploadEvidence(userId: string, frame: StoredFrame, crops: StoredCrop[]): Promise<void> {
+  const folder = `${userId}/${frame.videoId}`;
+  const frameWithPath = { ...frame, remotePath: await uploadImage(`${folder}/${frame.id}.jpg`, frame.image) };
+  const cropsWithPaths = await Promise.all(crops.map(async crop => ({
+    ...crop,
+    remotePath: await uploadImage(`${folder}/${crop.id}-crop.jpg`, crop.image),
+  })));
+  await saveEvidence(frameWithPath, cropsWithPaths);
+}
@@ -0,0 +1,30 @@
+// Per-user settings persisted in localStorage, namespaced by Supabase user id.
+
+const STORAGE_PREFIX = 'railway-monitor';
+export const USER_SETTING_EVENT = 'railway-monitor:setting-change';
+
+export const userSettingKey = (userId: string | null, key: string): string =>
+  `${STORAGE_PREFIX}:${userId ?? 'anonymous'}:${key}`;
+
+export function loadUserSetting<T>(userId: string | null, key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(userSettingKey(userId, key));
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch (err) {
+    console.warn(`Ignoring unreadable setting "${key}":`, err);
+    return fallback;
+  }
+}
+
+export function saveUserSetting<T>(userId: string | null, key: string, value: T): void {
+  const storageKey = userSettingKey(userId, key);
+  localStorage.setItem(storageKey, JSON.stringify(value));
+  // Let other mounted consumers of the same setting pick up the change
+  window.dispatchEvent(new CustomEvent(USER_SETTING_EVENT, { detail: storageKey }));
+}
+
+export function clearUserSetting(userId: string | null, key: string): void {
+  const storageKey = userSettingKey(userId, key);
+  localStorage.removeItem(storageKey);
+  window.dispatchEvent(new CustomEvent(USER_SETTING_EVENT, { detail: storageKey }));
+}
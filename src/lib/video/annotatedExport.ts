@@ -0,0 +1,175 @@
+// Re-renders a whole analysed video with boxes, labels, danger badges and a
+// timestamp watermark. WebCodecs decodes the file and encodes frame by frame,
+// faster than real time; when the browser or the file doesn't allow that,
+// playback is recorded with MediaRecorder instead.
+
+import {
+  ALL_FORMATS,
+  BlobSource,
+  BufferTarget,
+  CanvasSource,
+  Input,
+  Mp4OutputFormat,
+  Output,
+  QUALITY_HIGH,
+  VideoSampleSink,
+  WebMOutputFormat,
+  getFirstEncodableVideoCodec,
+} from 'mediabunny';
+import { detectionsAtTime, drawDetections, drawWatermark } from '@/lib/detection/overlay';
+import type { Detection } from '@/lib/detection/types';
+import { RecordingCancelledError, pickRecorderMimeType, recordSegment, type RecordingFormat } from './recorder';
+import { closeVideo, openVideo } from './videoElement';
+
+export type ExportMethod = 'webcodecs' | 'mediarecorder';
+
+export interface AnnotatedExportOptions {
+  title: string;
+  // Decoded with WebCodecs when given; otherwise playback is recorded
+  file?: Blob;
+  detections: Detection[];
+  // How long a sample's boxes stay on screen
+  overlayWindow: number;
+  frameRate: number;
+  format: RecordingFormat;
+  signal?: AbortSignal;
+  onProgress?: (fraction: number, method: ExportMethod) => void;
+}
+
+export interface AnnotatedExport {
+  blob: Blob;
+  format: RecordingFormat;
+  method: ExportMethod;
+}
+
+// Infinity for many MediaRecorder WebM files, NaN before metadata loads
+const isUsableDuration = (duration: number) => Number.isFinite(duration) && duration > 0;
+
+const createOutputFormat = (format: RecordingFormat) =>
+  format === 'mp4' ? new Mp4OutputFormat({ fastStart: 'in-memory' }) : new WebMOutputFormat();
+
+async function encodeWithWebCodecs(
+  file: Blob,
+  format: RecordingFormat,
+  annotate: (ctx: CanvasRenderingContext2D, time: number, height: number) => void,
+  { frameRate, signal, onProgress }: AnnotatedExportOptions
+): Promise<AnnotatedExport | null> {
+  if (typeof VideoEncoder === 'undefined' || typeof VideoDecoder === 'undefined') return null;
+
+  // Frames are decoded straight from the file, never by seeking an element
+  const input = new Input({ formats: ALL_FORMATS, source: new BlobSource(file) });
+  try {
+    const track = await input.getPrimaryVideoTrack();
+    if (!track || !(await track.canDecode())) return null;
+
+    const duration = await input.computeDuration();
+    if (!isUsableDuration(duration)) throw new Error('Video duration is unknown, so it cannot be exported');
+
+    const width = track.displayWidth;
+    const height = track.displayHeight;
+    const outputFormat = createOutputFormat(format);
+    const codec = await getFirstEncodableVideoCodec(outputFormat.getSupportedVideoCodecs(), {
+      width,
+      height,
+      quality: QUALITY_HIGH,
+    });
+    if (!codec) return null;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Cannot get canvas context');
+
+    const output = new Output({ format: outputFormat, target: new BufferTarget() });
+    const source = new CanvasSource(canvas, { codec, quality: QUALITY_HIGH });
+    output.addVideoTrack(source, { frameRate });
+    await output.start();
+
+    try {
+      const frameDuration = 1 / frameRate;
+      const frameCount = Math.max(1, Math.floor(duration * frameRate));
+      // Frame times come from the index so the output keeps a constant rate
+      const times = Array.from({ length: frameCount }, (_, index) => index * frameDuration);
+      const sink = new VideoSampleSink(track);
+
+      let index = 0;
+      for await (const sample of sink.samplesAtTimestamps(times)) {
+        const time = times[index++];
+        if (signal?.aborted) {
+          sample?.close();
+          throw new RecordingCancelledError();
+        }
+
+        // Black until the track's first frame
+        if (sample) {
+          sample.draw(ctx, 0, 0, width, height);
+          sample.close();
+        } else {
+          ctx.fillStyle = '#000';
+          ctx.fillRect(0, 0, width, height);
+        }
+        annotate(ctx, time, height);
+        await source.add(time, frameDuration);
+        onProgress?.(index / frameCount, 'webcodecs');
+      }
+
+      await output.finalize();
+    } catch (err) {
+      await output.cancel();
+      throw err;
+    }
+
+    const buffer = output.target.buffer;
+    if (!buffer) throw new Error('Encoder produced no output');
+    return { blob: new Blob([buffer], { type: outputFormat.mimeType }), format, method: 'webcodecs' };
+  } finally {
+    input.dispose();
+  }
+}
+
+async function recordWithMediaRecorder(
+  video: HTMLVideoElement,
+  render: (ctx: CanvasRenderingContext2D, time: number) => void,
+  { format, signal, onProgress }: AnnotatedExportOptions
+): Promise<AnnotatedExport> {
+  const recording = pickRecorderMimeType(format);
+  if (!recording) throw new Error('This browser can neither encode nor record video');
+  if (!isUsableDuration(video.duration)) throw new Error('Video duration is unknown, so it cannot be exported');
+
+  const blob = await recordSegment(video, {
+    start: 0,
+    end: video.duration,
+    mimeType: recording.mimeType,
+    signal,
+    onProgress: (fraction) => onProgress?.(fraction, 'mediarecorder'),
+    // recordSegment has already drawn the frame; only the annotations are added
+    draw: (ctx, time) => render(ctx, time),
+  });
+  return { blob, format: recording.format, method: 'mediarecorder' };
+}
+
+export async function exportAnnotatedVideo(url: string, options: AnnotatedExportOptions): Promise<AnnotatedExport> {
+  const { title, file, detections, overlayWindow } = options;
+
+  const annotate = (ctx: CanvasRenderingContext2D, time: number, height: number) => {
+    drawDetections(ctx, detectionsAtTime(detections, time, overlayWindow), { scale: 1, offsetX: 0, offsetY: 0 });
+    drawWatermark(ctx, title, time, height);
+  };
+
+  // Try the requested container first, then the other one, before recording in real time
+  if (file) {
+    const formats: RecordingFormat[] = options.format === 'mp4' ? ['mp4', 'webm'] : ['webm', 'mp4'];
+    for (const format of formats) {
+      const encoded = await encodeWithWebCodecs(file, format, annotate, options);
+      if (encoded) return encoded;
+    }
+  }
+
+  const video = await openVideo(url);
+  try {
+    return await recordWithMediaRecorder(video, (ctx, time) => annotate(ctx, time, video.videoHeight), options);
+  } finally {
+    closeVideo(video);
+  }
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CLIP, clipWindow } from './clip';
+
+describe('clipWindow', () => {
+  it('keeps the configured seconds around the detection', () => {
+    expect(clipWindow(30, 60, { ...DEFAULT_CLIP, before: 5, after: 10 })).toEqual({ start: 25, end: 40 });
+  });
+
+  it('is clipped to the start and end of the video', () => {
+    expect(clipWindow(2, 60, { ...DEFAULT_CLIP, before: 5, after: 10 })).toEqual({ start: 0, end: 12 });
+    expect(clipWindow(55, 60, { ...DEFAULT_CLIP, before: 5, after: 10 })).toEqual({ start: 50, end: 60 });
+  });
+
+  it('treats negative margins as none', () => {
+    expect(clipWindow(30, 60, { ...DEFAULT_CLIP, before: -3, after: -1 })).toEqual({ start: 30, end: 30 });
+  });
+});
@@ -0,0 +1,73 @@
+// Cuts a short clip around a detection from the uploaded file, optionally
+// with the detection boxes burned in.
+
+import { detectionsAtTime, drawDetections } from '@/lib/detection/overlay';
+import type { Detection } from '@/lib/detection/types';
+import { pickRecorderMimeType, recordSegment, type RecordingFormat } from './recorder';
+import { closeVideo, openVideo } from './videoElement';
+
+export interface ClipSettings {
+  // Seconds kept before and after the detection
+  before: number;
+  after: number;
+  format: RecordingFormat;
+  burnOverlay: boolean;
+}
+
+export const DEFAULT_CLIP: ClipSettings = {
+  before: 5,
+  after: 10,
+  format: 'webm',
+  burnOverlay: true,
+};
+
+export function clipWindow(time: number, duration: number, { before, after }: ClipSettings) {
+  return {
+    start: Math.max(0, time - Math.max(0, before)),
+    end: Math.min(duration, time + Math.max(0, after)),
+  };
+}
+
+export interface ExportClipOptions {
+  settings: ClipSettings;
+  // Every detection for the video, for the burned-in overlay
+  detections: Detection[];
+  // How long a sample's boxes stay on screen
+  overlayWindow: number;
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+export interface ExportedClip {
+  blob: Blob;
+  format: RecordingFormat;
+  start: number;
+  end: number;
+}
+
+export async function exportClip(
+  url: string,
+  time: number,
+  { settings, detections, overlayWindow, signal, onProgress }: ExportClipOptions
+): Promise<ExportedClip> {
+  const recording = pickRecorderMimeType(settings.format);
+  if (!recording) throw new Error('This browser cannot record video');
+
+  const video = await openVideo(url);
+  try {
+    const { start, end } = clipWindow(time, video.duration, settings);
+    const blob = await recordSegment(video, {
+      start,
+      end,
+      mimeType: recording.mimeType,
+      signal,
+      onProgress,
+      draw: settings.burnOverlay
+        ? (ctx, at) => drawDetections(ctx, detectionsAtTime(detections, at, overlayWindow), { scale: 1, offsetX: 0, offsetY: 0 })
+        : undefined,
+    });
+    return { blob, format: recording.format, start, end };
+  } finally {
+    closeVideo(video);
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ENHANCE, autoGamma, describeEnhancement, enhanceImageData, type EnhanceSettings } from './enhance';
+
+// RGBA pixels from a colour per pixel
+const image = (width: number, height: number, colour: (x: number, y: number) => number[]) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set([...colour(x, y), 255], (y * width + x) * 4);
+  }
+  return { data, width, height } as ImageData;
+};
+
+const pixel = (frame: ImageData, x: number, y: number) =>
+  Array.from(frame.data.subarray((y * frame.width + x) * 4, (y * frame.width + x) * 4 + 3));
+
+// Every step off, so each test switches on only the one it is about
+const none: EnhanceSettings = { ...DEFAULT_ENHANCE, enabled: true, autoExposure: false, equalize: false };
+
+describe('enhanceImageData', () => {
+  it('leaves the frame alone with every step off', () => {
+    const frame = image(4, 4, (x, y) => [x * 40, y * 40, 90]);
+    const before = new Uint8ClampedArray(frame.data);
+    enhanceImageData(frame, none);
+    expect(frame.data).toEqual(before);
+  });
+
+  it('spreads a lone bright pixel over its neighbours when denoising', () => {
+    const frame = image(5, 5, (x, y) => (x === 2 && y === 2 ? [255, 255, 255] : [0, 0, 0]));
+    enhanceImageData(frame, { ...none, denoise: true });
+    expect(pixel(frame, 2, 2)).toEqual([64, 64, 64]);
+    expect(pixel(frame, 1, 2)).toEqual([32, 32, 32]);
+    expect(pixel(frame, 1, 1)).toEqual([16, 16, 16]);
+    // The border is left as it was
+    expect(pixel(frame, 0, 0)).toEqual([0, 0, 0]);
+  });
+
+  it('takes the airlight out of hazy pixels and keeps the haze itself', () => {
+    // Bright haze on the left, a hazed-over object on the right
+    const frame = image(20, 10, x => (x < 10 ? [200, 200, 200] : [100, 110, 120]));
+    enhanceImageData(frame, { ...none, dehaze: true, dehazeStrength: 0.6 });
+    expect(pixel(frame, 0, 0)).toEqual([200, 200, 200]);
+    // Transmission 1 - 0.6 × 100 / 200 = 0.7 well inside the object
+    expect(pixel(frame, 19, 5)).toEqual([57, 71, 86]);
+  });
+
+  it('applies a fixed gamma', () => {
+    const frame = image(2, 2, () => [64, 0, 255]);
+    enhanceImageData(frame, { ...none, gamma: 0.5 });
+    expect(pixel(frame, 0, 0)).toEqual([128, 0, 255]);
+  });
+
+  it('brings a dark frame to mid-grey with auto exposure', () => {
+    const frame = image(2, 2, () => [64, 64, 64]);
+    enhanceImageData(frame, { ...none, autoExposure: true });
+    expect(pixel(frame, 0, 0)).toEqual([128, 128, 128]);
+  });
+
+  it('stretches low local contrast when equalising', () => {
+    // Levels 100 to 120 only, in every tile
+    const frame = image(64, 64, (x, y) => {
+      const value = 100 + ((x + y) % 21);
+      return [value, value, value];
+    });
+    enhanceImageData(frame, { ...none, equalize: true });
+    const levels = Array.from({ length: 64 * 64 }, (_, i) => frame.data[i * 4]);
+    expect(Math.max(...levels) - Math.min(...levels)).toBeGreaterThan(40);
+  });
+});
+
+describe('autoGamma', () => {
+  it('picks the gamma that maps the mean brightness to mid-grey', () => {
+    const grey = image(2, 2, () => [64, 64, 64]).data;
+    expect(Math.pow(64 / 255, autoGamma(grey))).toBeCloseTo(0.5);
+  });
+
+  it('stays within bounds and leaves black or white frames alone', () => {
+    expect(autoGamma(image(2, 2, () => [5, 5, 5]).data)).toBe(0.3);
+    expect(autoGamma(image(2, 2, () => [0, 0, 0]).data)).toBe(1);
+    expect(autoGamma(image(2, 2, () => [255, 255, 255]).data)).toBe(1);
+  });
+});
+
+describe('describeEnhancement', () => {
+  it('lists the steps that are on', () => {
+    expect(describeEnhancement({ ...DEFAULT_ENHANCE, enabled: true })).toBe('auto exposure, CLAHE 2.5');
+    expect(describeEnhancement({ ...none, denoise: true, dehaze: true, gamma: 0.8 })).toBe('denoise, dehaze 60%, gamma 0.80');
+    expect(describeEnhancement(none)).toBe('none');
+    expect(describeEnhancement(DEFAULT_ENHANCE)).toBeNull();
+  });
+});
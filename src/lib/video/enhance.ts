@@ -0,0 +1,252 @@
+// Image clean-up for night and bad-weather footage, applied to the frame before
+// it is analysed. Full frames are processed in the detection worker; only the
+// small settings preview runs on the main thread. Steps run in a fixed order:
+// denoise first so later steps don't amplify noise, then dehaze, exposure and
+// local contrast.
+
+export interface EnhanceSettings {
+  enabled: boolean;
+  denoise: boolean;
+  dehaze: boolean;
+  // How much haze is removed, 0 to 1
+  dehazeStrength: number;
+  // Picks a gamma that brings the mean brightness to mid-grey
+  autoExposure: boolean;
+  // Used when auto exposure is off; below 1 brightens
+  gamma: number;
+  // CLAHE-style local contrast equalisation
+  equalize: boolean;
+  // Histogram clip limit as a multiple of the average bin; higher is harsher
+  clipLimit: number;
+}
+
+export const DEFAULT_ENHANCE: EnhanceSettings = {
+  enabled: false,
+  denoise: false,
+  dehaze: false,
+  dehazeStrength: 0.6,
+  autoExposure: true,
+  gamma: 1,
+  equalize: true,
+  clipLimit: 2.5,
+};
+
+// Tiles per side for local equalisation
+const EQUALIZE_TILES = 8;
+// Half-width of the dark-channel window used for dehazing
+const DARK_RADIUS = 4;
+// Keeps dense haze from blowing up to noise
+const MIN_TRANSMISSION = 0.1;
+
+const luma = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+const clampByte = (value: number) => (value < 0 ? 0 : value > 255 ? 255 : value);
+
+// 3×3 binomial blur; cheap and enough for sensor noise in dark frames
+function denoise(data: Uint8ClampedArray, width: number, height: number): void {
+  const source = new Uint8ClampedArray(data);
+  const weights = [1, 2, 1];
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      for (let c = 0; c < 3; c++) {
+        let sum = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            sum += source[((y + dy) * width + x + dx) * 4 + c] * weights[dx + 1] * weights[dy + 1];
+          }
+        }
+        data[(y * width + x) * 4 + c] = sum / 16;
+      }
+    }
+  }
+}
+
+// Running minimum over a window, along rows then columns
+function minFilter(values: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+  const rows = new Uint8Array(values.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let min = 255;
+      for (let dx = Math.max(0, x - radius); dx <= Math.min(width - 1, x + radius); dx++) {
+        min = Math.min(min, values[y * width + dx]);
+      }
+      rows[y * width + x] = min;
+    }
+  }
+  const result = new Uint8Array(values.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let min = 255;
+      for (let dy = Math.max(0, y - radius); dy <= Math.min(height - 1, y + radius); dy++) {
+        min = Math.min(min, rows[dy * width + x]);
+      }
+      result[y * width + x] = min;
+    }
+  }
+  return result;
+}
+
+// Dark channel prior: haze lifts the darkest channel of every patch, so its
+// level estimates how much of each pixel is airlight rather than scene
+function dehaze(data: Uint8ClampedArray, width: number, height: number, strength: number): void {
+  const pixels = width * height;
+  const darkest = new Uint8Array(pixels);
+  for (let i = 0; i < pixels; i++) {
+    darkest[i] = Math.min(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+  }
+  const dark = minFilter(darkest, width, height, DARK_RADIUS);
+
+  // Airlight from the haziest 0.1% of pixels, found by walking a histogram of
+  // the dark channel down from the top rather than sorting every pixel
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < pixels; i++) histogram[dark[i]]++;
+  const wanted = Math.max(1, Math.floor(pixels * 0.001));
+  let level = 255;
+  let count = histogram[level];
+  while (level > 0 && count < wanted) count += histogram[--level];
+
+  const sums = [0, 0, 0];
+  let haziest = 0;
+  for (let i = 0; i < pixels; i++) {
+    if (dark[i] < level) continue;
+    haziest++;
+    for (let c = 0; c < 3; c++) sums[c] += data[i * 4 + c];
+  }
+  const airlight = sums.map(sum => Math.max(1, sum / Math.max(1, haziest)));
+  const airlightLevel = Math.max(...airlight);
+
+  for (let i = 0; i < pixels; i++) {
+    const transmission = Math.max(MIN_TRANSMISSION, 1 - (strength * dark[i]) / airlightLevel);
+    for (let c = 0; c < 3; c++) {
+      data[i * 4 + c] = clampByte((data[i * 4 + c] - airlight[c]) / transmission + airlight[c]);
+    }
+  }
+}
+
+function applyGamma(data: Uint8ClampedArray, gamma: number): void {
+  const table = Array.from({ length: 256 }, (_, v) => 255 * Math.pow(v / 255, gamma));
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = table[data[i]];
+    data[i + 1] = table[data[i + 1]];
+    data[i + 2] = table[data[i + 2]];
+  }
+}
+
+// Gamma that maps the frame's mean brightness to mid-grey, within reason
+export function autoGamma(data: Uint8ClampedArray): number {
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 4) sum += luma(data[i], data[i + 1], data[i + 2]);
+  const mean = sum / (data.length / 4) / 255;
+  if (mean <= 0.01 || mean >= 0.99) return 1;
+  return Math.min(2.5, Math.max(0.3, Math.log(0.5) / Math.log(mean)));
+}
+
+// Contrast-limited equalisation of brightness in tiles, blended between tile
+// centres so tile edges don't show; colour is scaled with the brightness
+function equalize(data: Uint8ClampedArray, width: number, height: number, clipLimit: number): void {
+  const tilesX = Math.min(EQUALIZE_TILES, width);
+  const tilesY = Math.min(EQUALIZE_TILES, height);
+  const tileWidth = width / tilesX;
+  const tileHeight = height / tilesY;
+  const pixels = width * height;
+
+  const brightness = new Uint8Array(pixels);
+  for (let i = 0; i < pixels; i++) {
+    brightness[i] = Math.round(luma(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]));
+  }
+
+  // One brightness mapping per tile
+  const maps: Uint8Array[] = [];
+  for (let ty = 0; ty < tilesY; ty++) {
+    for (let tx = 0; tx < tilesX; tx++) {
+      const histogram = new Float32Array(256);
+      const x0 = Math.floor(tx * tileWidth);
+      const x1 = Math.floor((tx + 1) * tileWidth);
+      const y0 = Math.floor(ty * tileHeight);
+      const y1 = Math.floor((ty + 1) * tileHeight);
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) histogram[brightness[y * width + x]]++;
+      }
+
+      const count = Math.max(1, (x1 - x0) * (y1 - y0));
+      const limit = (clipLimit * count) / 256;
+      let excess = 0;
+      for (let v = 0; v < 256; v++) {
+        if (histogram[v] > limit) {
+          excess += histogram[v] - limit;
+          histogram[v] = limit;
+        }
+      }
+
+      const map = new Uint8Array(256);
+      let cumulative = 0;
+      for (let v = 0; v < 256; v++) {
+        cumulative += histogram[v] + excess / 256;
+        map[v] = Math.round(clampByte((cumulative / count) * 255));
+      }
+      maps.push(map);
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    // Position between tile centres, and the blend weight towards the next one
+    const gy = Math.min(tilesY - 1, Math.max(0, (y + 0.5) / tileHeight - 0.5));
+    const ty0 = Math.floor(gy);
+    const ty1 = Math.min(tilesY - 1, ty0 + 1);
+    const wy = gy - ty0;
+    for (let x = 0; x < width; x++) {
+      const gx = Math.min(tilesX - 1, Math.max(0, (x + 0.5) / tileWidth - 0.5));
+      const tx0 = Math.floor(gx);
+      const tx1 = Math.min(tilesX - 1, tx0 + 1);
+      const wx = gx - tx0;
+
+      const index = y * width + x;
+      const value = brightness[index];
+      const mapped =
+        (1 - wy) * ((1 - wx) * maps[ty0 * tilesX + tx0][value] + wx * maps[ty0 * tilesX + tx1][value]) +
+        wy * ((1 - wx) * maps[ty1 * tilesX + tx0][value] + wx * maps[ty1 * tilesX + tx1][value]);
+
+      const scale = value > 0 ? mapped / value : 0;
+      for (let c = 0; c < 3; c++) {
+        data[index * 4 + c] = value > 0 ? clampByte(data[index * 4 + c] * scale) : mapped;
+      }
+    }
+  }
+}
+
+export function enhanceImageData(image: ImageData, settings: EnhanceSettings): void {
+  const { data, width, height } = image;
+  if (settings.denoise) denoise(data, width, height);
+  if (settings.dehaze) dehaze(data, width, height, settings.dehazeStrength);
+
+  const gamma = settings.autoExposure ? autoGamma(data) : settings.gamma;
+  if (Math.abs(gamma - 1) > 0.01) applyGamma(data, gamma);
+
+  if (settings.equalize) equalize(data, width, height, settings.clipLimit);
+}
+
+// Rewrites the canvas in place; a no-op while enhancement is off
+export function enhanceCanvas(canvas: HTMLCanvasElement | OffscreenCanvas, settings: EnhanceSettings): void {
+  if (!settings.enabled || !canvas.width || !canvas.height) return;
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true }) as
+    | CanvasRenderingContext2D
+    | OffscreenCanvasRenderingContext2D
+    | null;
+  if (!ctx) throw new Error('Cannot get canvas context');
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  enhanceImageData(image, settings);
+  ctx.putImageData(image, 0, 0);
+}
+
+// Short summary for reports, e.g. "denoise, dehaze 60%, auto exposure, CLAHE 2.5"
+export function describeEnhancement(settings: EnhanceSettings): string | null {
+  if (!settings.enabled) return null;
+
+  const steps: string[] = [];
+  if (settings.denoise) steps.push('denoise');
+  if (settings.dehaze) steps.push(`dehaze ${Math.round(settings.dehazeStrength * 100)}%`);
+  if (settings.autoExposure) steps.push('auto exposure');
+  else if (Math.abs(settings.gamma - 1) > 0.01) steps.push(`gamma ${settings.gamma.toFixed(2)}`);
+  if (settings.equalize) steps.push(`CLAHE ${settings.clipLimit.toFixed(1)}`);
+  return steps.length > 0 ? steps.join(', ') : 'none';
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_ADAPTIVE,
+  DEFAULT_SAMPLING,
+  adaptiveSampling,
+  describeSampling,
+  refinementTimes,
+  samplingStep,
+  samplingTimes,
+  type SamplingConfig,
+} from './frameSampler';
+
+const config = (overrides: Partial<SamplingConfig>): SamplingConfig => ({ ...DEFAULT_SAMPLING, ...overrides });
+
+describe('samplingStep', () => {
+  it('uses the interval in seconds, but never less than a frame', () => {
+    expect(samplingStep(config({ mode: 'seconds', interval: 2 }))).toBe(2);
+    expect(samplingStep(config({ mode: 'seconds', interval: 0, frameRate: 25 }))).toBe(1 / 25);
+  });
+
+  it('converts frame intervals with the frame rate', () => {
+    expect(samplingStep(config({ mode: 'frames', interval: 15, frameRate: 30 }))).toBeCloseTo(0.5);
+    expect(samplingStep(config({ mode: 'frames', interval: 0, frameRate: 30 }))).toBeCloseTo(1 / 30);
+    expect(samplingStep(config({ mode: 'every-frame', frameRate: 50 }))).toBeCloseTo(0.02);
+  });
+});
+
+describe('samplingTimes', () => {
+  it('spaces samples evenly from the start, before the end of the video', () => {
+    expect(samplingTimes(config({ interval: 2 }), 7)).toEqual([0, 2, 4, 6]);
+    expect(samplingTimes(config({ interval: 2 }), 6)).toEqual([0, 2, 4]);
+  });
+
+  it('derives times from the index so they stay on the grid', () => {
+    const times = samplingTimes(config({ mode: 'every-frame', frameRate: 30 }), 10);
+    expect(times).toHaveLength(300);
+    expect(times[299]).toBeCloseTo(299 / 30, 9);
+  });
+
+  it('gives no samples for unknown or empty durations', () => {
+    expect(samplingTimes(DEFAULT_SAMPLING, Infinity)).toEqual([]);
+    expect(samplingTimes(DEFAULT_SAMPLING, NaN)).toEqual([]);
+    expect(samplingTimes(DEFAULT_SAMPLING, 0)).toEqual([]);
+  });
+});
+
+describe('refinementTimes', () => {
+  const adaptive = { ...DEFAULT_ADAPTIVE, enabled: true, denseInterval: 0.5, window: 1 };
+
+  it('samples densely around each flagged frame, within the video', () => {
+    expect(refinementTimes([0.2], adaptive, 10)).toEqual([0, 0.5, 1]);
+    expect(refinementTimes([9.8], adaptive, 10)).toEqual([9, 9.5]);
+  });
+
+  it('merges overlapping windows without repeats', () => {
+    expect(refinementTimes([4, 3], adaptive, 10)).toEqual([2, 2.5, 3, 3.5, 4, 4.5, 5]);
+  });
+
+  it('gives no samples for an unknown duration', () => {
+    expect(refinementTimes([4], adaptive, NaN)).toEqual([]);
+  });
+});
+
+describe('adaptiveSampling', () => {
+  it('is off unless enabled, and never applies when every frame is sampled', () => {
+    const adaptive = { ...DEFAULT_ADAPTIVE, enabled: true };
+    expect(adaptiveSampling(config({ adaptive: { ...adaptive, enabled: false } }))).toBeNull();
+    expect(adaptiveSampling(config({ adaptive: undefined }))).toBeNull();
+    expect(adaptiveSampling(config({ adaptive, mode: 'every-frame' }))).toBeNull();
+    expect(adaptiveSampling(config({ adaptive }))).toBe(adaptive);
+  });
+});
+
+describe('describeSampling', () => {
+  it('summarises the mode and extras', () => {
+    expect(describeSampling(config({ interval: 2 }))).toBe('every 2s');
+    expect(describeSampling(config({
+      mode: 'frames',
+      interval: 5,
+      adaptive: { ...DEFAULT_ADAPTIVE, enabled: true },
+      motionGate: { enabled: true, threshold: 0.01, forceInterval: 5 },
+    }))).toBe('every 5 frames, every 0.2s near events, motion-gated');
+  });
+});
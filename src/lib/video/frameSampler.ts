@@ -0,0 +1,206 @@
+// Which timestamps get analysed, and frame-accurate sampling of an
+// HTMLVideoElement: seek, wait until the target frame is actually decoded and
+// presented, run the callback, then move on.
+
+import { DEFAULT_MOTION_GATE, type MotionGate } from './motion';
+
+export type SamplingMode = 'seconds' | 'frames' | 'every-frame';
+
+// A sparse first pass, then a second pass that samples densely around frames
+// where something was detected or moved
+export interface AdaptiveSampling {
+  enabled: boolean;
+  // Seconds between samples around a flagged frame
+  denseInterval: number;
+  // Seconds either side of a flagged frame that are sampled densely
+  window: number;
+  // Flag frames on motion as well as on detections
+  motion: boolean;
+}
+
+export interface SamplingConfig {
+  mode: SamplingMode;
+  // Seconds between samples, or frames between samples in 'frames' mode
+  interval: number;
+  // Used to convert frame counts to timestamps; browsers don't expose it
+  frameRate: number;
+  // Both missing from settings saved before they existed
+  adaptive?: AdaptiveSampling;
+  motionGate?: MotionGate;
+}
+
+export const DEFAULT_ADAPTIVE: AdaptiveSampling = {
+  enabled: false,
+  denseInterval: 0.2,
+  window: 2,
+  motion: true,
+};
+
+export const DEFAULT_SAMPLING: SamplingConfig = {
+  mode: 'seconds',
+  interval: 2,
+  frameRate: 30,
+  adaptive: DEFAULT_ADAPTIVE,
+  motionGate: DEFAULT_MOTION_GATE,
+};
+
+// How long to wait for a frame callback after 'seeked' before reading anyway
+const FRAME_CALLBACK_TIMEOUT = 500;
+const SEEK_TIMEOUT = 10000;
+
+// Typed by the DOM lib, but still missing from older Firefox releases
+const supportsFrameCallback = (video: HTMLVideoElement): boolean =>
+  typeof video.requestVideoFrameCallback === 'function';
+
+export function samplingStep(config: SamplingConfig): number {
+  const frameDuration = 1 / Math.max(1, config.frameRate);
+  switch (config.mode) {
+    case 'every-frame':
+      return frameDuration;
+    case 'frames':
+      return Math.max(1, Math.round(config.interval)) * frameDuration;
+    default:
+      return Math.max(frameDuration, config.interval);
+  }
+}
+
+export function adaptiveSampling(config: SamplingConfig): AdaptiveSampling | null {
+  // Every frame is already as dense as it gets
+  if (!config.adaptive?.enabled || config.mode === 'every-frame') return null;
+  return config.adaptive;
+}
+
+export function motionGate(config: SamplingConfig): MotionGate | null {
+  return config.motionGate?.enabled ? config.motionGate : null;
+}
+
+export function describeSampling(config: SamplingConfig): string {
+  const adaptive = adaptiveSampling(config);
+  const extras = (adaptive ? `, every ${adaptive.denseInterval}s near events` : '')
+    + (motionGate(config) ? ', motion-gated' : '');
+  switch (config.mode) {
+    case 'every-frame':
+      return `every frame @ ${config.frameRate} fps${extras}`;
+    case 'frames':
+      return `every ${config.interval} frames${extras}`;
+    default:
+      return `every ${config.interval}s${extras}`;
+  }
+}
+
+// Millisecond key, so timestamps from different grids compare reliably
+export const timeKey = (time: number): number => Math.round(time * 1000);
+
+// Timestamps are derived from the index so rounding errors don't accumulate.
+// Unbounded or unknown ranges give no samples rather than an endless loop
+const grid = (step: number, from: number, to: number): number[] => {
+  const times: number[] = [];
+  if (!(step > 0) || !Number.isFinite(from) || !Number.isFinite(to)) return times;
+  for (let index = Math.max(0, Math.ceil(from / step - 1e-9)); index * step <= to; index++) {
+    times.push(index * step);
+  }
+  return times;
+};
+
+// The first pass: evenly spaced samples over the whole video
+export function samplingTimes(config: SamplingConfig, duration: number): number[] {
+  const step = samplingStep(config);
+  return grid(step, 0, duration).filter(time => time < duration);
+}
+
+// The second pass: a dense grid around each flagged frame, sorted and without repeats
+export function refinementTimes(flagged: number[], adaptive: AdaptiveSampling, duration: number): number[] {
+  const step = Math.max(0.01, adaptive.denseInterval);
+  const times = new Map<number, number>();
+  flagged.forEach(center => {
+    grid(step, center - adaptive.window, Math.min(duration, center + adaptive.window)).forEach(time => {
+      if (time < duration) times.set(timeKey(time), time);
+    });
+  });
+  return Array.from(times.values()).sort((a, b) => a - b);
+}
+
+// Resolves once the frame at `time` can be drawn from the element
+export function seekToFrame(video: HTMLVideoElement, time: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let frameHandle: number | null = null;
+    let fallback: ReturnType<typeof setTimeout> | null = null;
+
+    const cleanup = () => {
+      clearTimeout(seekTimeout);
+      if (fallback) clearTimeout(fallback);
+      if (frameHandle !== null) {
+        video.cancelVideoFrameCallback(frameHandle);
+      }
+      video.removeEventListener('seeked', handleSeeked);
+      video.removeEventListener('error', handleError);
+    };
+
+    const done = () => {
+      cleanup();
+      resolve();
+    };
+
+    const handleSeeked = () => {
+      if (frameHandle === null) {
+        done();
+      } else {
+        // Paused elements don't always present a frame after seeking
+        fallback = setTimeout(done, FRAME_CALLBACK_TIMEOUT);
+      }
+    };
+
+    const handleError = () => {
+      cleanup();
+      reject(new Error(video.error?.message || 'Video failed to seek'));
+    };
+
+    const seekTimeout = setTimeout(() => {
+      cleanup();
+      reject(new Error(`Seek to ${time.toFixed(2)}s timed out`));
+    }, SEEK_TIMEOUT);
+
+    if (supportsFrameCallback(video)) {
+      frameHandle = video.requestVideoFrameCallback(() => done());
+    }
+    video.addEventListener('seeked', handleSeeked);
+    video.addEventListener('error', handleError);
+    video.currentTime = time;
+  });
+}
+
+export interface SampleVideoOptions {
+  signal?: AbortSignal;
+}
+
+export interface SampleVideoResult {
+  framesProcessed: number;
+  // False when the signal stopped sampling before the last timestamp
+  completed: boolean;
+}
+
+// Visits `times` in order; they should be sorted so seeks stay short
+export async function sampleVideo(
+  video: HTMLVideoElement,
+  times: number[],
+  onFrame: (time: number) => Promise<void>,
+  { signal }: SampleVideoOptions = {}
+): Promise<SampleVideoResult> {
+  let framesProcessed = 0;
+
+  for (const time of times) {
+    if (signal?.aborted) {
+      return { framesProcessed, completed: false };
+    }
+
+    await seekToFrame(video, time);
+    if (signal?.aborted) {
+      return { framesProcessed, completed: false };
+    }
+
+    await onFrame(time);
+    framesProcessed++;
+  }
+
+  return { framesProcessed, completed: true };
+}
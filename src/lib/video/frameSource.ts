@@ -0,0 +1,135 @@
+// Where analysis frames come from. The WebCodecs source demuxes MP4/WebM in JS
+// and decodes with VideoDecoder, running as fast as inference allows; anything
+// it can't open falls back to seeking the video element.
+
+import { ALL_FORMATS, BlobSource, Input, VideoSampleSink } from 'mediabunny';
+import { sampleVideo, type SampleVideoOptions, type SampleVideoResult } from './frameSampler';
+
+export type FrameSourceKind = 'webcodecs' | 'element';
+
+// 'element' forces the seek-based path, e.g. to rule out decoder differences
+export type FrameSourcePreference = 'auto' | 'element';
+
+export interface SourceFrame {
+  time: number;
+  // Owned by the source: valid only until the frame callback settles
+  image: HTMLVideoElement | VideoFrame;
+  width: number;
+  height: number;
+}
+
+export interface FrameSource {
+  kind: FrameSourceKind;
+  duration: number;
+  // Timestamps should be sorted; each source reads them in a single forward pass
+  sample(
+    times: number[],
+    onFrame: (frame: SourceFrame) => Promise<void>,
+    options?: SampleVideoOptions
+  ): Promise<SampleVideoResult>;
+  close(): void;
+}
+
+export const FRAME_SOURCE_LABELS: Record<FrameSourceKind, string> = {
+  webcodecs: 'WebCodecs decoder',
+  element: 'Video element seeking',
+};
+
+// The caller keeps ownership of the element. `duration` overrides the
+// element's, which is Infinity for WebM files written by MediaRecorder
+export function elementFrameSource(video: HTMLVideoElement, duration = video.duration): FrameSource {
+  return {
+    kind: 'element',
+    duration,
+    sample: (times, onFrame, options) =>
+      sampleVideo(video, times, (time) => onFrame({
+        time,
+        image: video,
+        width: video.videoWidth,
+        height: video.videoHeight,
+      }), options),
+    close: () => {},
+  };
+}
+
+// Resolves to null when the browser or the file can't be decoded this way
+export async function openWebCodecsFrameSource(file: Blob): Promise<FrameSource | null> {
+  if (typeof VideoDecoder === 'undefined') return null;
+
+  const input = new Input({ formats: ALL_FORMATS, source: new BlobSource(file) });
+  try {
+    const track = await input.getPrimaryVideoTrack();
+    if (!track || !(await track.canDecode())) {
+      input.dispose();
+      return null;
+    }
+
+    const duration = await input.computeDuration();
+    const sink = new VideoSampleSink(track);
+
+    return {
+      kind: 'webcodecs',
+      duration,
+      async sample(times, onFrame, { signal } = {}) {
+        let framesProcessed = 0;
+
+        // Sorted timestamps let the sink decode each packet at most once
+        let index = 0;
+        for await (const sample of sink.samplesAtTimestamps(times)) {
+          const time = times[index++];
+          if (signal?.aborted) {
+            sample?.close();
+            return { framesProcessed, completed: false };
+          }
+          // Nothing to show before the track's first frame
+          if (!sample) continue;
+
+          const frame = sample.toVideoFrame();
+          sample.close();
+          try {
+            await onFrame({ time, image: frame, width: frame.displayWidth, height: frame.displayHeight });
+          } finally {
+            frame.close();
+          }
+          framesProcessed++;
+        }
+
+        return { framesProcessed, completed: true };
+      },
+      close: () => input.dispose(),
+    };
+  } catch (err) {
+    console.warn('WebCodecs frame source unavailable, seeking the video element instead:', err);
+    input.dispose();
+    return null;
+  }
+}
+
+// Read from the container, for files the element can play but not measure
+async function containerDuration(file: Blob): Promise<number | null> {
+  const input = new Input({ formats: ALL_FORMATS, source: new BlobSource(file) });
+  try {
+    const duration = await input.computeDuration();
+    return Number.isFinite(duration) && duration > 0 ? duration : null;
+  } catch (err) {
+    console.warn('Could not read the video duration from its container:', err);
+    return null;
+  } finally {
+    input.dispose();
+  }
+}
+
+export async function openFrameSource(
+  video: HTMLVideoElement,
+  file: Blob | undefined,
+  preference: FrameSourcePreference = 'auto'
+): Promise<FrameSource> {
+  if (file && preference === 'auto') {
+    const source = await openWebCodecsFrameSource(file);
+    if (source) return source;
+  }
+  if (file && !Number.isFinite(video.duration)) {
+    return elementFrameSource(video, (await containerDuration(file)) ?? video.duration);
+  }
+  return elementFrameSource(video);
+}
@@ -0,0 +1,71 @@
+// Cheap frame differencing on a small greyscale thumbnail. Scores are the mean
+// absolute luma change from a reference frame, from 0 (identical) to 1.
+
+// Above this, the scene changed enough to be worth a closer look
+export const MOTION_THRESHOLD = 0.04;
+
+// Skips inference on frames that barely differ from the last one the detector saw
+export interface MotionGate {
+  enabled: boolean;
+  // Mean luma change at or below which a frame counts as static
+  threshold: number;
+  // Seconds of video after which a frame is analysed regardless
+  forceInterval: number;
+}
+
+export const DEFAULT_MOTION_GATE: MotionGate = {
+  enabled: false,
+  threshold: 0.015,
+  forceInterval: 10,
+};
+
+const THUMBNAIL_WIDTH = 64;
+const THUMBNAIL_HEIGHT = 36;
+
+export interface MotionDetector {
+  // Change from the reference frame; 0 while there is none
+  measure(image: CanvasImageSource): number;
+  // Makes the frame measured last the reference for the next ones
+  commit(): void;
+  reset(): void;
+}
+
+export function createMotionDetector(): MotionDetector {
+  const canvas = new OffscreenCanvas(THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Cannot get canvas context');
+
+  let reference: Float32Array | null = null;
+  let latest: Float32Array | null = null;
+
+  return {
+    measure(image) {
+      ctx.drawImage(image, 0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+      const { data } = ctx.getImageData(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+
+      const luma = new Float32Array(THUMBNAIL_WIDTH * THUMBNAIL_HEIGHT);
+      for (let i = 0; i < luma.length; i++) {
+        luma[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+      }
+
+      let score = 0;
+      if (reference) {
+        let total = 0;
+        for (let i = 0; i < luma.length; i++) {
+          total += Math.abs(luma[i] - reference[i]);
+        }
+        score = total / luma.length;
+      }
+
+      latest = luma;
+      return score;
+    },
+    commit() {
+      if (latest) reference = latest;
+    },
+    reset() {
+      reference = null;
+      latest = null;
+    },
+  };
+}
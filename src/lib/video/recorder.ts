@@ -0,0 +1,125 @@
+// Re-renders a stretch of video through a canvas and records it with
+// MediaRecorder, so overlays can be drawn onto every frame. Runs in real time.
+
+import { seekToFrame } from './frameSampler';
+
+export type RecordingFormat = 'webm' | 'mp4';
+
+const MIME_TYPES: Record<RecordingFormat, string[]> = {
+  webm: ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'],
+  mp4: ['video/mp4;codecs=avc1', 'video/mp4'],
+};
+
+export interface RecorderMimeType {
+  mimeType: string;
+  format: RecordingFormat;
+}
+
+// The preferred format if this browser can record it, otherwise the other one
+export function pickRecorderMimeType(preferred: RecordingFormat): RecorderMimeType | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+
+  const formats: RecordingFormat[] = preferred === 'mp4' ? ['mp4', 'webm'] : ['webm', 'mp4'];
+  for (const format of formats) {
+    const mimeType = MIME_TYPES[format].find(type => MediaRecorder.isTypeSupported(type));
+    if (mimeType) return { mimeType, format };
+  }
+  return null;
+}
+
+export interface RecordSegmentOptions {
+  start: number;
+  end: number;
+  mimeType: string;
+  // Called after each frame is drawn, in source pixels
+  draw?: (ctx: CanvasRenderingContext2D, time: number) => void;
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+  videoBitsPerSecond?: number;
+}
+
+export class RecordingCancelledError extends Error {
+  constructor() {
+    super('Recording cancelled');
+    this.name = 'RecordingCancelledError';
+  }
+}
+
+export async function recordSegment(
+  video: HTMLVideoElement,
+  { start, end, mimeType, draw, signal, onProgress, videoBitsPerSecond = 5_000_000 }: RecordSegmentOptions
+): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Cannot get canvas context');
+
+  await seekToFrame(video, start);
+
+  const renderFrame = () => {
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    draw?.(ctx, video.currentTime);
+  };
+  renderFrame();
+
+  const recorder = new MediaRecorder(canvas.captureStream(), { mimeType, videoBitsPerSecond });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => resolve();
+  });
+
+  recorder.start(1000);
+  video.muted = true;
+
+  await new Promise<void>((resolve, reject) => {
+    let finished = false;
+    const finish = (error?: Error) => {
+      if (finished) return;
+      finished = true;
+      video.pause();
+      signal?.removeEventListener('abort', handleAbort);
+      if (error) reject(error);
+      else resolve();
+    };
+    const handleAbort = () => finish(new RecordingCancelledError());
+
+    const step = () => {
+      if (finished) return;
+      renderFrame();
+      onProgress?.(Math.min(1, (video.currentTime - start) / Math.max(0.001, end - start)));
+
+      if (video.currentTime >= end || video.ended) {
+        finish();
+      } else if (typeof video.requestVideoFrameCallback === 'function') {
+        video.requestVideoFrameCallback(() => step());
+      } else {
+        requestAnimationFrame(step);
+      }
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+    video.play().then(step, err => finish(err instanceof Error ? err : new Error('Playback failed')));
+  }).finally(() => {
+    if (recorder.state !== 'inactive') recorder.stop();
+  });
+
+  await stopped;
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+}
+
+// Firefox and Safari start the download after click() returns, so revoking the
+// URL straight away can cancel large ones
+const DOWNLOAD_REVOKE_DELAY = 60_000;
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_REVOKE_DELAY);
+}
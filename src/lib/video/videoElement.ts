@@ -0,0 +1,29 @@
+// Detached <video> elements for analysing videos that aren't on screen.
+
+export function openVideo(url: string): Promise<HTMLVideoElement> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+
+    video.onloadeddata = () => {
+      video.onloadeddata = null;
+      video.onerror = null;
+      resolve(video);
+    };
+    video.onerror = () => {
+      video.onloadeddata = null;
+      video.onerror = null;
+      reject(new Error(video.error?.message || 'Video could not be loaded'));
+    };
+    video.src = url;
+  });
+}
+
+// Releases the decoder; the object URL stays valid for other consumers
+export function closeVideo(video: HTMLVideoElement): void {
+  video.pause();
+  video.removeAttribute('src');
+  video.load();
+}
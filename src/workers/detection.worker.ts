@@ -0,0 +1,431 @@
+// Runs a detection model off the main thread: YOLOv8, a YOLOv8-seg model that
+// also outlines each object, a zero-shot model queried with text prompts, or a
+// depth model that measures the frame for them. See
+// src/lib/detection/protocol.ts for the messages exchanged with the hook.
+
+import {
+  pipeline,
+  env,
+  AutoImageProcessor,
+  AutoModel,
+  RawImage,
+  Tensor,
+  type DepthEstimationPipeline,
+  type ImageProcessor,
+  type ObjectDetectionPipeline,
+  type ObjectDetectionPipelineOutput,
+  type PreTrainedModel,
+  type PretrainedModelOptions,
+  type ZeroShotObjectDetectionOutput,
+  type ZeroShotObjectDetectionPipeline,
+} from '@huggingface/transformers';
+import { probeCapabilities, rankBackends, type BackendDtype } from '@/lib/detection/backend';
+import { DEPTH_MAP_WIDTH, type DepthMap } from '@/lib/detection/depth';
+import { isCustomModelRepo } from '@/lib/detection/models';
+import { createModelCache } from '@/lib/detection/modelStore';
+import {
+  isVideoFrame,
+  type DetectionFrame,
+  type DetectionTask,
+  type DetectionWorkerRequest,
+  type DetectionWorkerResponse,
+} from '@/lib/detection/protocol';
+import { decodeSegmentation, type SegmentedObject } from '@/lib/detection/segmentation';
+import { UNMAPPED_TARGET, resolveLabel, type Taxonomy } from '@/lib/detection/taxonomy';
+import type { TileRect } from '@/lib/detection/tiling';
+import type { DetectionResult } from '@/lib/detection/types';
+import { decodeDetections, type DetectedObject, type RawTensor } from '@/lib/detection/yolo';
+import { enhanceCanvas, type EnhanceSettings } from '@/lib/video/enhance';
+
+interface WorkerScope {
+  postMessage: (message: DetectionWorkerResponse, transfer?: Transferable[]) => void;
+  addEventListener: (type: 'message', listener: (event: MessageEvent<DetectionWorkerRequest>) => void) => void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+// Serve model files from IndexedDB: hub downloads are kept for offline use and
+// imported custom models only exist there
+env.allowLocalModels = false;
+env.useBrowserCache = false;
+env.useCustomCache = true;
+env.customCache = createModelCache();
+
+// transformers.js has no pipeline for Ultralytics exports (imported YOLOv8 and
+// every YOLOv8-seg model), so the graph runs as-is and its raw outputs are decoded here
+interface RawDetector {
+  model: PreTrainedModel;
+  processor: ImageProcessor;
+  classes: string[];
+  dispose: () => Promise<unknown>;
+}
+
+type Detector = ObjectDetectionPipeline | ZeroShotObjectDetectionPipeline | DepthEstimationPipeline | RawDetector;
+
+// pipeline()'s overloads are too complex for tsc to resolve, so pin the ones we use
+const loadPipeline = pipeline as unknown as (
+  task: Exclude<DetectionTask, 'instance-segmentation'>,
+  model: string,
+  options: PretrainedModelOptions
+) => Promise<ObjectDetectionPipeline | ZeroShotObjectDetectionPipeline | DepthEstimationPipeline>;
+
+const loadRawDetector = async (modelId: string, options: PretrainedModelOptions): Promise<RawDetector> => {
+  const [model, processor] = await Promise.all([
+    AutoModel.from_pretrained(modelId, options),
+    AutoImageProcessor.from_pretrained(modelId, { progress_callback: options.progress_callback }),
+  ]);
+  const id2label = (model.config as { id2label?: Record<string, string> }).id2label ?? {};
+  const classes = Object.entries(id2label)
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([, label]) => label);
+  return { model, processor, classes, dispose: () => model.dispose() };
+};
+
+const usesRawOutputs = (task: DetectionTask, modelId: string): boolean =>
+  task === 'instance-segmentation' || (task === 'object-detection' && isCustomModelRepo(modelId));
+
+const loadDetector = (task: DetectionTask, modelId: string, options: PretrainedModelOptions): Promise<Detector> =>
+  usesRawOutputs(task, modelId)
+    ? loadRawDetector(modelId, options)
+    : loadPipeline(task as Exclude<DetectionTask, 'instance-segmentation'>, modelId, options);
+
+let detector: Detector | null = null;
+let detectorTask: DetectionTask = 'object-detection';
+let detectorRaw = false;
+
+type ProgressInfo = Parameters<NonNullable<PretrainedModelOptions['progress_callback']>>[0];
+
+// Folds per-file download events into one percentage; once every file is
+// fetched the remaining time is spent building the inference session
+const createProgressTracker = () => {
+  const files = new Map<string, { loaded: number; total: number; done: boolean }>();
+  let compiling = false;
+
+  return (info: ProgressInfo) => {
+    if (info.status === 'ready') return;
+
+    const entry = files.get(info.file) ?? { loaded: 0, total: 0, done: false };
+    if (info.status === 'progress') {
+      entry.loaded = info.loaded;
+      entry.total = info.total;
+    } else if (info.status === 'done') {
+      entry.done = true;
+      entry.loaded = entry.total;
+    }
+    files.set(info.file, entry);
+
+    const all = Array.from(files.values());
+    if (all.every(file => file.done)) {
+      if (!compiling) {
+        compiling = true;
+        scope.postMessage({ type: 'status', status: { state: 'compiling' } });
+      }
+      return;
+    }
+
+    compiling = false;
+    const loaded = all.reduce((sum, file) => sum + file.loaded, 0);
+    const total = all.reduce((sum, file) => sum + file.total, 0);
+    scope.postMessage({
+      type: 'status',
+      status: { state: 'downloading', progress: total > 0 ? Math.round((loaded / total) * 100) : 0 },
+    });
+  };
+};
+
+const initialize = async (modelId: string, dtypes: BackendDtype[], task: DetectionTask) => {
+  const capabilities = await probeCapabilities();
+  if (!capabilities.wasmThreads && env.backends.onnx.wasm) {
+    env.backends.onnx.wasm.numThreads = 1;
+  }
+
+  // Try each backend in order of preference until one loads
+  const failures: string[] = [];
+  for (const candidate of rankBackends(capabilities, dtypes)) {
+    console.log(`Loading ${modelId} on ${candidate.label}...`);
+    try {
+      scope.postMessage({ type: 'status', status: { state: 'downloading', progress: 0 } });
+      detectorTask = task;
+      detectorRaw = usesRawOutputs(task, modelId);
+      detector = await loadDetector(task, modelId, {
+        device: candidate.device,
+        dtype: candidate.dtype,
+        progress_callback: createProgressTracker(),
+      });
+
+      console.log(`${modelId} loaded successfully on ${candidate.label}`);
+      scope.postMessage({ type: 'status', status: { state: 'ready' } });
+      scope.postMessage({
+        type: 'ready',
+        backend: failures.length > 0
+          ? { ...candidate, reason: `${candidate.reason} (after: ${failures.join('; ')})` }
+          : candidate,
+      });
+      return;
+    } catch (err) {
+      console.warn(`${modelId} failed to load on ${candidate.label}:`, err);
+      failures.push(`${candidate.label} failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  }
+
+  throw new Error(failures.join('; '));
+};
+
+const toCanvas = (frame: DetectionFrame): OffscreenCanvas => {
+  if (frame instanceof OffscreenCanvas) {
+    return frame;
+  }
+
+  // Decoded frames are drawn at their display size, like the element they replace
+  const width = isVideoFrame(frame) ? frame.displayWidth : frame.width;
+  const height = isVideoFrame(frame) ? frame.displayHeight : frame.height;
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Cannot get canvas context');
+  ctx.drawImage(frame, 0, 0, width, height);
+  frame.close();
+  return canvas;
+};
+
+const cropTile = (source: OffscreenCanvas, tile: TileRect): RawImage => {
+  const canvas = new OffscreenCanvas(tile.width, tile.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Cannot get canvas context');
+  ctx.drawImage(source, tile.x, tile.y, tile.width, tile.height, 0, 0, tile.width, tile.height);
+  return RawImage.fromCanvas(canvas);
+};
+
+const runRawDetector = async (
+  image: RawImage,
+  scoreThreshold: number
+): Promise<DetectedObject[] | SegmentedObject[]> => {
+  const { model, processor, classes } = detector as RawDetector;
+  const { pixel_values } = await processor(image) as { pixel_values: Tensor };
+  // Ultralytics exports name their input "images"
+  const outputs = await model({ images: pixel_values }) as Record<string, Tensor>;
+
+  // Boxes come as [1, channels, anchors] and mask prototypes as [1, 32, h, w]
+  const tensors = Object.values(outputs);
+  const output = tensors.find(tensor => tensor.dims.length === 3);
+  const prototypes = tensors.find(tensor => tensor.dims.length === 4);
+  if (!output) {
+    throw new Error('Model does not look like a YOLOv8 export (expected a [1, channels, anchors] output)');
+  }
+
+  const [, , inputHeight, inputWidth] = pixel_values.dims;
+  const toRaw = (tensor: Tensor): RawTensor => ({ data: tensor.to('float32').data as Float32Array, dims: tensor.dims });
+  const options = {
+    classes,
+    scoreThreshold,
+    imageWidth: image.width,
+    imageHeight: image.height,
+    inputWidth,
+    inputHeight,
+  };
+
+  if (detectorTask !== 'instance-segmentation') {
+    return decodeDetections(toRaw(output), options);
+  }
+  if (!prototypes) {
+    throw new Error('Model does not look like a YOLOv8-seg export (expected boxes and mask prototypes)');
+  }
+  return decodeSegmentation(toRaw(output), toRaw(prototypes), options);
+};
+
+// Zero-shot results are labelled with the prompt that matched
+const runPipeline = async (
+  image: RawImage,
+  scoreThreshold: number,
+  prompts: string[]
+): Promise<ObjectDetectionPipelineOutput | ZeroShotObjectDetectionOutput[] | DetectedObject[] | SegmentedObject[]> => {
+  if (detectorRaw) {
+    return await runRawDetector(image, scoreThreshold);
+  }
+  if (detectorTask === 'zero-shot-object-detection') {
+    if (prompts.length === 0) return [];
+    const zeroShot = detector as ZeroShotObjectDetectionPipeline;
+    return await zeroShot(image, prompts, { threshold: scoreThreshold }) as ZeroShotObjectDetectionOutput[];
+  }
+  const objectDetector = detector as ObjectDetectionPipeline;
+  return await objectDetector(image, { threshold: scoreThreshold }) as ObjectDetectionPipelineOutput;
+};
+
+// Runs the detector on one image and maps boxes into full-frame coordinates
+const runDetector = async (
+  image: RawImage,
+  offset: { x: number; y: number },
+  taxonomy: Taxonomy,
+  scoreThreshold: number,
+  prompts: string[]
+): Promise<DetectionResult[]> => {
+  const results = await runPipeline(image, scoreThreshold, prompts);
+  const detections: DetectionResult[] = [];
+
+  results.forEach((result: ObjectDetectionPipelineOutput[number] | DetectedObject | SegmentedObject) => {
+    // Ignored labels are sent back flagged; the hook drops them after suppression
+    const target = resolveLabel(taxonomy, result.label);
+
+    const xmin = result.box.xmin + offset.x;
+    const ymin = result.box.ymin + offset.y;
+    const xmax = result.box.xmax + offset.x;
+    const ymax = result.box.ymax + offset.y;
+    detections.push({
+      // Unique across workers, since YOLO and zero-shot results are merged
+      id: `det-${crypto.randomUUID()}`,
+      label: result.label,
+      type: target === 'ignore' ? UNMAPPED_TARGET : target,
+      ignored: target === 'ignore' || undefined,
+      confidence: result.score,
+      bbox: {
+        x: xmin,
+        y: ymin,
+        width: xmax - xmin,
+        height: ymax - ymin,
+      },
+      center: {
+        x: (xmin + xmax) / 2,
+        y: (ymin + ymax) / 2,
+      },
+      polygon: 'polygon' in result
+        ? result.polygon.map(point => ({ x: point.x + offset.x, y: point.y + offset.y }))
+        : undefined,
+    });
+  });
+
+  return detections;
+};
+
+const detect = async (
+  frame: DetectionFrame,
+  taxonomy: Taxonomy,
+  scoreThreshold: number,
+  tiles: TileRect[],
+  prompts: string[]
+): Promise<DetectionResult[]> => {
+  if (!detector) {
+    throw new Error('Detection model not loaded');
+  }
+
+  const canvas = toCanvas(frame);
+
+  // The full-frame pass still catches large, close objects that span several tiles
+  const detections = await runDetector(
+    RawImage.fromCanvas(canvas),
+    { x: 0, y: 0 },
+    taxonomy,
+    scoreThreshold,
+    prompts
+  );
+  for (const tile of tiles) {
+    detections.push(...await runDetector(cropTile(canvas, tile), tile, taxonomy, scoreThreshold, prompts));
+  }
+
+  return detections;
+};
+
+// Scaled down first: the model resizes its input anyway, and a small map is
+// cheap to send back and plenty to sample boxes from
+const estimateDepth = async (frame: DetectionFrame): Promise<DepthMap> => {
+  if (!detector || detectorTask !== 'depth-estimation') {
+    throw new Error('Depth model not loaded');
+  }
+
+  const source = toCanvas(frame);
+  const width = Math.min(DEPTH_MAP_WIDTH, source.width);
+  const height = Math.max(1, Math.round((width * source.height) / source.width));
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Cannot get canvas context');
+  ctx.drawImage(source, 0, 0, width, height);
+
+  const estimator = detector as DepthEstimationPipeline;
+  const { predicted_depth } = await estimator(RawImage.fromCanvas(canvas)) as { predicted_depth: Tensor };
+  const [mapHeight, mapWidth] = predicted_depth.dims.slice(-2);
+  return { width: mapWidth, height: mapHeight, data: predicted_depth.to('float32').data as Float32Array };
+};
+
+// Needs no model, so it doesn't wait for inference to finish
+const enhance = (frame: DetectionFrame, settings: EnhanceSettings): ImageBitmap => {
+  const canvas = toCanvas(frame);
+  enhanceCanvas(canvas, settings);
+  return canvas.transferToImageBitmap();
+};
+
+// ONNX sessions can't run concurrently, yet every consumer of a shared model
+// posts to the same worker; requests are run one after another in arrival order
+let inference: Promise<unknown> = Promise.resolve();
+const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = inference.then(task, task);
+  inference = run.catch(() => undefined);
+  return run;
+};
+
+scope.addEventListener('message', async (event) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'init':
+      try {
+        await initialize(message.modelId, message.dtypes, message.task);
+      } catch (err) {
+        scope.postMessage({
+          type: 'status',
+          status: { state: 'failed', error: err instanceof Error ? err.message : 'Unknown error' },
+        });
+      }
+      break;
+    case 'detect':
+      try {
+        const detections = await serialize(() => detect(
+          message.frame,
+          message.taxonomy,
+          message.scoreThreshold,
+          message.tiles,
+          message.prompts
+        ));
+        scope.postMessage({ type: 'result', requestId: message.requestId, detections });
+      } catch (err) {
+        scope.postMessage({
+          type: 'detect-error',
+          requestId: message.requestId,
+          message: err instanceof Error ? err.message : 'Unknown error',
+        });
+      }
+      break;
+    case 'depth':
+      try {
+        const depth = await serialize(() => estimateDepth(message.frame));
+        scope.postMessage({ type: 'depth-result', requestId: message.requestId, depth });
+      } catch (err) {
+        scope.postMessage({
+          type: 'detect-error',
+          requestId: message.requestId,
+          message: err instanceof Error ? err.message : 'Unknown error',
+        });
+      }
+      break;
+    case 'enhance':
+      try {
+        const frame = enhance(message.frame, message.settings);
+        scope.postMessage({ type: 'enhanced', requestId: message.requestId, frame }, [frame]);
+      } catch (err) {
+        scope.postMessage({
+          type: 'detect-error',
+          requestId: message.requestId,
+          message: err instanceof Error ? err.message : 'Unknown error',
+        });
+      }
+      break;
+    case 'dispose':
+      try {
+        // Let whatever is running finish before the session goes away
+        await inference;
+        await detector?.dispose();
+      } catch (err) {
+        console.warn('Failed to dispose detection pipeline:', err);
+      }
+      detector = null;
+      scope.postMessage({ type: 'disposed' });
+      break;
+  }
+});
@@ -0,0 +1,28 @@
+-- Private bucket for evidence snapshots uploaded from the analysis views.
+-- Objects live under "<user id>/<video id>/", and each user can only reach
+-- their own folder.
+
+insert into storage.buckets (id, name, public)
+values ('evidence', 'evidence', false)
+on conflict (id) do nothing;
+
+create policy "Users can read their own evidence"
+on storage.objects for select
+to authenticated
+using (bucket_id = 'evidence' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can upload their own evidence"
+on storage.objects for insert
+to authenticated
+with check (bucket_id = 'evidence' and (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Uploads use upsert, which updates objects that already exist
+create policy "Users can replace their own evidence"
+on storage.objects for update
+to authenticated
+using (bucket_id = 'evidence' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can delete their own evidence"
+on storage.objects for delete
+to authenticated
+using (bucket_id = 'evidence' and (storage.foldername(name))[1] = auth.uid()::text);